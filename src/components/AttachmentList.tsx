@@ -0,0 +1,59 @@
+import { FileText, X } from "lucide-react";
+import { attachmentUrl, formatBytes, isImageAttachment } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+import type { FileAttachment } from "@/types/chat";
+
+interface AttachmentListProps {
+  attachments: FileAttachment[];
+  // Shows a remove button on each item (composer); otherwise items download
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+// Image thumbnails and file chips, in the composer and inside sent messages
+const AttachmentList = ({ attachments, onRemove, className }: AttachmentListProps) => (
+  <ul className={cn("flex flex-wrap gap-2", className)} aria-label="Attachments">
+    {attachments.map((attachment) => {
+      const url = attachmentUrl(attachment);
+      const label = `${attachment.name} (${formatBytes(attachment.size)})`;
+      return (
+        <li key={attachment.id} className="relative group/attachment">
+          <a
+            href={onRemove ? undefined : url}
+            download={onRemove ? undefined : attachment.name}
+            title={label}
+            className="block"
+          >
+            {isImageAttachment(attachment) ? (
+              <img
+                src={url}
+                alt={attachment.name}
+                className="h-20 w-20 rounded-md border border-border/50 object-cover"
+              />
+            ) : (
+              <span className="flex h-12 max-w-[14rem] items-center gap-2 rounded-md border border-border/50 bg-background/20 px-2 text-xs">
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="min-w-0">
+                  <span className="block truncate font-medium">{attachment.name}</span>
+                  <span className="block opacity-70">{formatBytes(attachment.size)}</span>
+                </span>
+              </span>
+            )}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              className="absolute -right-1.5 -top-1.5 rounded-full border bg-background p-0.5 text-muted-foreground shadow-sm hover:text-foreground"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default AttachmentList;
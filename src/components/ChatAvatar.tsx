@@ -1,148 +1,61 @@
-import { useEffect, useState, useRef, useCallback } from "react";
 import { cn } from "@/lib/utils";
+import { useAudioFrame } from "@/hooks/use-audio-frame";
+import type { Viseme } from "@/lib/voice/audio-meter";
+import type { VoicePhase } from "@/lib/voice/types";
 
 interface ChatAvatarProps {
-  isVoiceMode: boolean;
+  phase: VoicePhase;
 }
 
-const API_URL = "http://127.0.0.1:8000";
-
-const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [pulseIntensity, setPulseIntensity] = useState(0);
-  const [mouthMovement, setMouthMovement] = useState(0);
-
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const streamRef = useRef<MediaStream | null>(null);
-
-  // Animate pulse and mouth movement
-  useEffect(() => {
-    if (isListening || isSpeaking) {
-      const pulseInterval = setInterval(() => setPulseIntensity(Math.random() * 100), 200);
-      const mouthInterval = setInterval(() => setMouthMovement(Math.random() * 40 + 10), 150);
-      return () => {
-        clearInterval(pulseInterval);
-        clearInterval(mouthInterval);
-      };
-    } else {
-      setPulseIntensity(0);
-      setMouthMovement(0);
-    }
-  }, [isListening, isSpeaking]);
-
-  // Play TTS from base64
-  const playAudio = useCallback(async (base64: string) => {
-  try {
-    setIsSpeaking(true);
-
-    // Convert base64 to ArrayBuffer
-    const res = await fetch(`data:audio/mp3;base64,${base64}`);
-    const arrayBuffer = await res.arrayBuffer();
-
-    // Create AudioContext for reliable playback
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const buffer = await audioCtx.decodeAudioData(arrayBuffer);
-    const source = audioCtx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(audioCtx.destination);
-
-    source.onended = () => setIsSpeaking(false);
-    source.start(0);
-  } catch (err) {
-    console.error("Error playing AI audio:", err);
-    setIsSpeaking(false);
-  }
-}, []);
-
-
-  // Send audio blob to /voice endpoint
-  const sendVoiceToAI = useCallback(async (audioBlob: Blob) => {
-    const formData = new FormData();
-    formData.append("file", audioBlob, "voice.wav");
-
-    try {
-      const res = await fetch(`${API_URL}/voice`, { method: "POST", body: formData });
-      const data = await res.json();
-      if (data.audio_base64) await playAudio(data.audio_base64);
-    } catch (err) {
-      console.error("Voice API error:", err);
-      setIsSpeaking(false);
-    }
-  }, [playAudio]);
-
-  // Start recording
-  const startVoice = useCallback(async () => {
-    if (!navigator.mediaDevices?.getUserMedia) return;
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      // const recorder = new MediaRecorder(stream);
-      const recorder = new MediaRecorder(stream, { mimeType: "audio/webm" });
-
-      mediaRecorderRef.current = recorder;
-      audioChunksRef.current = [];
-
-      recorder.ondataavailable = (e: BlobEvent) => audioChunksRef.current.push(e.data);
-
-      recorder.onstop = async () => {
-        setIsListening(false);
-        const audioBlob = new Blob(audioChunksRef.current, { type: "audio/wav" });
-        await sendVoiceToAI(audioBlob);
-
-        // Continuous listening
-        if (isVoiceMode) startVoice();
-      };
-
-      recorder.start();
-      setIsListening(true);
-
-      // Auto-stop after max duration (optional)
-      setTimeout(() => {
-        if (recorder.state !== "inactive") recorder.stop();
-      }, 4000); // 4 sec chunks
-    } catch (err) {
-      console.error("Error accessing mic:", err);
-    }
-  }, [isVoiceMode, sendVoiceToAI]);
+const STATUS_TEXT: Record<VoicePhase, string> = {
+  idle: "Ready to chat",
+  listening: "Listening...",
+  transcribing: "Transcribing...",
+  confirming: "Check your message",
+  thinking: "Thinking...",
+  speaking: "Speaking...",
+};
 
-  // Stop recording
-  const stopVoice = useCallback(() => {
-    mediaRecorderRef.current?.stop();
-    setIsListening(false);
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((t) => t.stop());
-      streamRef.current = null;
-    }
-  }, []);
+const HINT_TEXT: Record<VoicePhase, string> = {
+  // Only shown in push-to-talk mode while waiting for the button
+  idle: "Hold the talk button when you're ready to speak",
+  listening: "Speak naturally - I'm listening",
+  transcribing: "Working out what you said...",
+  confirming: "Edit the transcript if needed, then send or discard it",
+  thinking: "Preparing a reply...",
+  speaking: "I'm responding...",
+};
 
-  // Auto-start/stop voice mode
-  useEffect(() => {
-    if (isVoiceMode) startVoice();
-    else stopVoice();
+// Mouth proportions per viseme; height also opens with loudness
+const MOUTH_SHAPE: Record<Viseme, { width: number; height: number }> = {
+  rest: { width: 1, height: 0.4 },
+  open: { width: 1.05, height: 1.4 },
+  wide: { width: 1.35, height: 0.7 },
+  round: { width: 0.7, height: 1.2 },
+};
 
-    return () => stopVoice();
-  }, [isVoiceMode, startVoice, stopVoice]);
+// Animated face for voice mode; all audio is handled by useVoiceEngine
+const ChatAvatar = ({ phase }: ChatAvatarProps) => {
+  const isListening = phase === "listening";
+  const isSpeaking = phase === "speaking";
+  const isBusy = phase === "transcribing" || phase === "thinking";
+  // Everything moves with the live audio: the microphone while listening,
+  // the assistant's voice while speaking
+  const { level, bands, viseme } = useAudioFrame(
+    isListening ? "input" : isSpeaking ? "output" : null
+  );
 
-  // === Avatar UI (animations kept intact) ===
   return (
     <div className="flex flex-col items-center justify-center h-full">
       <div className="relative">
         {/* Outer pulse rings */}
         <div
-          className={cn(
-            "absolute inset-0 rounded-full border-2 border-ai-primary/30 transition-all duration-500",
-            isListening && "animate-ping scale-150"
-          )}
+          className="absolute inset-0 rounded-full border-2 border-ai-primary/30 transition-transform duration-150"
+          style={{ transform: `scale(${1 + level * 0.6})`, opacity: 0.3 + level * 0.7 }}
         />
         <div
-          className={cn(
-            "absolute inset-0 rounded-full border-2 border-ai-secondary/30 transition-all duration-700 delay-100",
-            isListening && "animate-ping scale-125"
-          )}
+          className="absolute inset-0 rounded-full border-2 border-ai-secondary/30 transition-transform duration-300"
+          style={{ transform: `scale(${1 + level * 0.35})`, opacity: 0.3 + level * 0.7 }}
         />
 
         {/* Main avatar */}
@@ -152,9 +65,10 @@ const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
             isListening && "scale-110 shadow-lg"
           )}
           style={{
-            boxShadow: isListening
-              ? `0 0 ${20 + pulseIntensity / 2}px hsl(var(--ai-primary) / 0.6)`
-              : "var(--shadow-avatar)",
+            boxShadow:
+              isListening || isSpeaking
+                ? `0 0 ${20 + level * 50}px hsl(var(${isSpeaking ? "--ai-secondary" : "--ai-primary"}) / 0.6)`
+                : "var(--shadow-avatar)",
           }}
         >
           <div className="relative w-full h-full rounded-full overflow-hidden">
@@ -178,14 +92,14 @@ const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
             <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
               <div
                 className={cn(
-                  "w-8 h-4 border-2 border-background rounded-b-full transition-all duration-200",
-                  (isListening || isSpeaking) && "animate-bounce"
+                  "w-8 h-4 border-2 border-background transition-all duration-75",
+                  viseme === "round" ? "rounded-full" : "rounded-b-full"
                 )}
                 style={{
                   transform: isSpeaking
-                    ? `scaleY(${0.3 + mouthMovement / 100}) scaleX(${1 + mouthMovement / 100})`
+                    ? `scaleX(${MOUTH_SHAPE[viseme].width}) scaleY(${MOUTH_SHAPE[viseme].height * (0.4 + level)})`
                     : isListening
-                    ? `scaleY(${0.5 + pulseIntensity / 200})`
+                    ? `scaleY(${0.5 + level * 0.3})`
                     : "scaleY(0.5)",
                 }}
               />
@@ -195,14 +109,11 @@ const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
             {isListening && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="flex space-x-1">
-                  {[...Array(5)].map((_, i) => (
+                  {bands.map((band, i) => (
                     <div
                       key={i}
-                      className="w-1 bg-background/80 rounded-full animate-pulse"
-                      style={{
-                        height: `${10 + (pulseIntensity / 10) * Math.sin(Date.now() / 200 + i)}px`,
-                        animationDelay: `${i * 100}ms`,
-                      }}
+                      className="w-1 bg-background/80 rounded-full transition-[height] duration-75"
+                      style={{ height: `${4 + band * 36}px` }}
                     />
                   ))}
                 </div>
@@ -216,10 +127,10 @@ const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
       <div className="mt-6 text-center">
         <h3 className="text-lg font-semibold bg-gradient-ai bg-clip-text text-transparent">AI Assistant</h3>
         <p className="text-sm text-muted-foreground mt-1">
-          {isSpeaking ? "Speaking..." : isListening ? "Listening..." : "Ready to chat"}
+          {STATUS_TEXT[phase]}
         </p>
 
-        {(isListening || isSpeaking) && (
+        {(isListening || isSpeaking || isBusy) && (
           <div className="mt-4 flex justify-center space-x-1">
             {[...Array(3)].map((_, i) => (
               <div
@@ -234,11 +145,7 @@ const ChatAvatar = ({ isVoiceMode }: ChatAvatarProps) => {
 
       <div className="mt-8 p-4 bg-card/50 rounded-lg border border-border/50">
         <p className="text-xs text-muted-foreground text-center">
-          {isSpeaking
-            ? "I'm responding..."
-            : isListening
-            ? "Speak naturally - I'm listening"
-            : "Click the microphone to start voice conversation"}
+          {HINT_TEXT[phase]}
         </p>
       </div>
     </div>
@@ -1,106 +1,166 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Card } from "@/components/ui/card";
-import { Send, Mic, MicOff } from "lucide-react";
+import { Mic, MicOff, Search, Settings, SquareSlash } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { streamChatReply } from "@/lib/api";
+import { isAbortError, toApiError } from "@/lib/api-errors";
+import { createGreeting, createId } from "@/lib/conversation";
+import { buildHistory, findPromptIndex } from "@/lib/chat-history";
+import { getSiblings, getThread, removeMessage } from "@/lib/message-tree";
+import {
+  ImportError,
+  downloadConversation,
+  parseConversationsJson,
+} from "@/lib/conversation-transfer";
+import {
+  CommandError,
+  findSimilarCommand,
+  parseSlashCommand,
+  unescapeSlash,
+  type AppCommand,
+  type CommandContext,
+} from "@/lib/commands";
+import { setDraft } from "@/lib/drafts";
+import { getSettings } from "@/lib/settings";
+import { blobToBase64 } from "@/lib/voice/base64";
+import { requestedLanguage } from "@/lib/voice/languages";
+import { useVoiceEngine, type VoiceTurn } from "@/hooks/use-voice-engine";
+import { useSettings } from "@/hooks/use-settings";
+import { useConversations } from "@/hooks/use-conversations";
+import { useServerStatus } from "@/hooks/use-server-status";
+import { useAttachments } from "@/hooks/use-attachments";
+import { useDraft } from "@/hooks/use-draft";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import ConversationSidebar from "./ConversationSidebar";
+import ConversationNotFound from "./ConversationNotFound";
+import ServerStatusBanner from "./ServerStatusBanner";
+import SettingsDialog from "./SettingsDialog";
+import ConversationTransferMenu from "./ConversationTransferMenu";
+import SearchDialog from "./SearchDialog";
+import CommandPalette from "./CommandPalette";
+import MessageComposer from "./MessageComposer";
+import type { AudioAttachment, FileAttachment, Message, MessageSource } from "@/types/chat";
 import { useToast } from "@/hooks/use-toast";
 import ChatAvatar from "./ChatAvatar";
+import PushToTalkButton from "./PushToTalkButton";
+import MessageBubble from "./MessageBubble";
+import VoiceTranscriptInput from "./VoiceTranscriptInput";
 
-// TypeScript declarations for Speech APIs
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-}
+const EMPTY_MESSAGES: Message[] = [];
 
-interface Message {
-  id: string;
-  content: string;
-  isUser: boolean;
-  timestamp: Date;
+interface ChatInterfaceProps {
+  conversationId?: string;
 }
 
-const API_URL = "http://127.0.0.1:8000"; // FastAPI backend
-
-const ChatInterface = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      content: "Hello! I'm your AI assistant. How can I help you today?",
-      isUser: false,
-      timestamp: new Date(),
-    },
-  ]);
-  const [inputValue, setInputValue] = useState("");
-  const [isVoiceMode, setIsVoiceMode] = useState(false);
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [recognitionActive, setRecognitionActive] = useState(false);
+const ChatInterface = ({ conversationId: routeConversationId }: ChatInterfaceProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const {
+    conversations,
+    activeConversation,
+    isLoaded,
+    createConversation,
+    renameConversation,
+    togglePinned,
+    deleteConversation,
+    importConversations,
+    updateMessages,
+    appendMessages,
+    selectBranch,
+  } = useConversations(routeConversationId, (error) =>
+    toast({
+      title: "Couldn't save the conversation",
+      description:
+        error instanceof DOMException && error.name === "QuotaExceededError"
+          ? "Browser storage is full. Recent messages and files won't be there after a reload."
+          : "Recent messages may not be there after a reload.",
+      variant: "destructive",
+    })
+  );
+  const activeId = activeConversation?.id ?? null;
+  // The branch being shown; other branches stay in activeConversation.messages
+  const messages = useMemo(
+    () => (activeConversation ? getThread(activeConversation) : EMPTY_MESSAGES),
+    [activeConversation]
+  );
+  const isMissingConversation =
+    isLoaded && routeConversationId !== undefined && !activeConversation;
+  // Unsent text, kept per conversation
+  const [inputValue, setInputValue] = useDraft(activeId);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Message to scroll to and outline after picking a search result
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const { settings } = useSettings();
+  const {
+    apiUrl,
+    status: serverStatus,
+    isChecking: isCheckingServer,
+    recheck: recheckServer,
+  } = useServerStatus();
+  // Conversations with a reply currently streaming in
+  const [generatingIds, setGeneratingIds] = useState<ReadonlySet<string>>(new Set());
+  const isGenerating = activeId !== null && generatingIds.has(activeId);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const recognitionRef = useRef<any>(null);
-  const speechSynthesisRef = useRef<SpeechSynthesisUtterance | null>(null);
-  const { toast } = useToast();
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // One in-flight request per conversation, so asking in one doesn't stop another
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const { attachments, addFiles, removeAttachment, clearAttachments } = useAttachments(
+    (description) => toast({ title: "Can't attach file", description, variant: "destructive" })
+  );
 
-  // Initialize speech recognition
+  // Pending files belong to the conversation they were added in
   useEffect(() => {
-    if ("webkitSpeechRecognition" in window || "SpeechRecognition" in window) {
-      const SpeechRecognitionAPI =
-        window.SpeechRecognition || window.webkitSpeechRecognition;
-      recognitionRef.current = new SpeechRecognitionAPI();
-
-      if (recognitionRef.current) {
-        recognitionRef.current.continuous = true;
-        recognitionRef.current.interimResults = false;
-        recognitionRef.current.lang = "en-US";
-
-        recognitionRef.current.onresult = (event: any) => {
-          const transcript =
-            event.results[event.results.length - 1][0].transcript;
-          if (transcript.trim()) {
-            toast({
-              title: "Voice Input Detected",
-              description: `Heard: "${transcript}"`,
-            });
-            processMessage(transcript);
-          }
-        };
-
-        recognitionRef.current.onerror = (event: any) => {
-          console.error("Speech recognition error:", event.error);
-          setIsListening(false);
-          setRecognitionActive(false);
-          toast({
-            title: "Voice Recognition Error",
-            description: "Please try again",
-            variant: "destructive",
-          });
-        };
-
-        recognitionRef.current.onend = () => {
-          if (recognitionActive && isVoiceMode) {
-            // Restart recognition if still in voice mode
-            setTimeout(() => {
-              if (recognitionRef.current && recognitionActive && isVoiceMode) {
-                recognitionRef.current.start();
-              }
-            }, 100);
-          }
-        };
-      }
+    clearAttachments();
+  }, [activeId, clearAttachments]);
+
+  const openConversation = useCallback(
+    (id: string, options?: { replace?: boolean }) => navigate(`/c/${id}`, options),
+    [navigate]
+  );
+
+  // "/" opens the most recent conversation
+  useEffect(() => {
+    if (isLoaded && !routeConversationId && conversations.length > 0) {
+      openConversation(conversations[0].id, { replace: true });
     }
+  }, [isLoaded, routeConversationId, conversations, openConversation]);
 
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-      if (speechSynthesisRef.current) {
-        speechSynthesis.cancel();
-      }
-    };
-  }, [recognitionActive, isVoiceMode]);
+  const handleCreateConversation = () => {
+    openConversation(createConversation());
+  };
+
+  const handleImport = (json: string) => {
+    try {
+      const { added, renamed } = importConversations(parseConversationsJson(json));
+      toast({
+        title: `Imported ${added.length} conversation${added.length === 1 ? "" : "s"}`,
+        description:
+          renamed > 0
+            ? `${renamed} already existed and ${renamed === 1 ? "was" : "were"} added as a copy.`
+            : undefined,
+      });
+      openConversation(added[0].id);
+    } catch (error) {
+      console.error("Import failed:", error);
+      toast({
+        title: "Import failed",
+        description:
+          error instanceof ImportError ? error.message : "The file couldn't be imported.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+    const nextId = deleteConversation(id);
+    setDraft(id, "");
+    if (id === activeId) openConversation(nextId, { replace: true });
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -110,246 +170,589 @@ const ChatInterface = () => {
     scrollToBottom();
   }, [messages]);
 
-  // Call FastAPI /chat
-  const getAIResponse = async (userInput: string): Promise<string> => {
-    try {
-      const res = await fetch(`${API_URL}/chat`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userInput }),
-      });
-      const data = await res.json();
-      return data.assistant || "No response from server.";
-    } catch (error) {
-      console.error("Error getting AI response:", error);
-      return "Sorry, I'm having trouble connecting to the server.";
+  // Ctrl/Cmd+K opens search and Ctrl/Cmd+Shift+P the command palette, from anywhere
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === "k" && !event.shiftKey) {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
+      } else if (key === "p" && event.shiftKey) {
+        event.preventDefault();
+        setIsPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Bring a search hit into view once its thread has rendered (overriding the
+  // scroll to the bottom above), then fade the outline
+  useEffect(() => {
+    if (!highlightedId || !messages.some((m) => m.id === highlightedId)) return;
+    document
+      .getElementById(`message-${highlightedId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = window.setTimeout(() => setHighlightedId(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [highlightedId, messages]);
+
+  const jumpToMessage = (conversationId: string, messageId: string) => {
+    const conversation = conversations.find((c) => c.id === conversationId);
+    if (!conversation) return;
+    // Hits on another branch switch the conversation over to that branch
+    if (!getThread(conversation).some((m) => m.id === messageId)) {
+      selectBranch(conversationId, messageId);
     }
+    if (conversationId !== activeId) openConversation(conversationId);
+    setHighlightedId(messageId);
   };
 
-  // Text-to-Speech
-  const speakText = useCallback((text: string) => {
-    if ("speechSynthesis" in window) {
-      speechSynthesis.cancel(); // cancel ongoing
-
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.pitch = 1.0;
-      utterance.volume = 1.0;
-
-      const voices = speechSynthesis.getVoices();
-      const preferredVoice =
-        voices.find(
-          (voice) =>
-            voice.lang.startsWith("en") && voice.name.includes("Google")
-        ) || voices.find((voice) => voice.lang.startsWith("en"));
-
-      if (preferredVoice) {
-        utterance.voice = preferredVoice;
-      }
+  // Cancel any in-flight requests when leaving the page
+  useEffect(() => {
+    const controllers = abortControllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Stream an assistant reply to `prompt` into the given conversation and
+  // resolve to its text (null if it failed or was stopped). Replies land in
+  // the conversation they were asked in, even if the user switches threads
+  // while the answer is streaming. A prompt that already has a reply gets
+  // another one as a sibling branch.
+  const requestReply = async (
+    conversationId: string,
+    prompt: Message,
+    previousMessages: Message[],
+    source?: MessageSource
+  ): Promise<string | null> => {
+    const { historyMaxTurns, historyMaxChars, speechLanguage, systemPrompt, model } =
+      getSettings();
+    const history = buildHistory(previousMessages, {
+      maxTurns: historyMaxTurns,
+      maxChars: historyMaxChars,
+    });
+
+    const assistantId = createId();
+    const placeholder = {
+      id: assistantId,
+      content: "",
+      isUser: false,
+      timestamp: new Date(),
+      isStreaming: true,
+      source,
+    };
+
+    appendMessages(conversationId, [placeholder], prompt.id);
+
+    const updateAssistant = (update: (message: Message) => Partial<Message>) =>
+      updateMessages(conversationId, (prev) =>
+        prev.map((m) => (m.id === assistantId ? { ...m, ...update(m) } : m))
+      );
 
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = () => setIsSpeaking(false);
+    // Keep whatever arrived before the reply was stopped or superseded
+    const markStopped = () =>
+      updateMessages(conversationId, (prev) =>
+        prev
+          .filter((m) => m.id !== assistantId || m.content)
+          .map((m) => (m.id === assistantId ? { ...m, isStreaming: false, stopped: true } : m))
+      );
+
+    const controllers = abortControllersRef.current;
+    controllers.get(conversationId)?.abort();
+    const controller = new AbortController();
+    controllers.set(conversationId, controller);
+    setGeneratingIds((prev) => new Set(prev).add(conversationId));
+
+    // Call FastAPI /chat, growing the reply as tokens arrive
+    try {
+      const aiResponseText = await streamChatReply(prompt.content, {
+        history,
+        sessionId: conversationId,
+        language: requestedLanguage(speechLanguage),
+        systemPrompt,
+        model,
+        attachments: prompt.attachments,
+        signal: controller.signal,
+        // Nothing lands after Stop or after a newer request in this
+        // conversation took over
+        onDelta: (delta) => {
+          if (!controller.signal.aborted) updateAssistant((m) => ({ content: m.content + delta }));
+        },
+      });
 
-      speechSynthesisRef.current = utterance;
-      speechSynthesis.speak(utterance);
+      if (controller.signal.aborted) {
+        markStopped();
+        return null;
+      }
+      updateAssistant(() => ({ content: aiResponseText, isStreaming: false }));
+      return aiResponseText;
+    } catch (error) {
+      if (isAbortError(error)) {
+        markStopped();
+      } else {
+        const apiError = toApiError(error);
+        console.error("Error getting AI response:", apiError);
+        updateAssistant(() => ({
+          isStreaming: false,
+          error: { message: apiError.message, retryable: apiError.isRetryable },
+        }));
+      }
+      return null;
+    } finally {
+      if (controllers.get(conversationId) === controller) {
+        controllers.delete(conversationId);
+        setGeneratingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(conversationId);
+          return next;
+        });
+      }
     }
-  }, []);
+  };
 
   // Process a message (typed or voice)
-  const processMessage = async (messageText: string) => {
-    if (!messageText.trim()) return;
+  const processMessage = async (
+    messageText: string,
+    source?: MessageSource,
+    files?: FileAttachment[]
+  ): Promise<string | null> => {
+    if ((!messageText.trim() && !files?.length) || !activeId) return null;
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: createId(),
+      parentId: messages[messages.length - 1]?.id ?? null,
       content: messageText,
       isUser: true,
       timestamp: new Date(),
+      source,
+      attachments: files?.length ? files : undefined,
     };
 
-    setMessages((prev) => [...prev, userMessage]);
-    setInputValue("");
+    appendMessages(activeId, [userMessage], userMessage.parentId);
+    if (source !== "voice") {
+      setInputValue("");
+      clearAttachments();
+    }
+    return requestReply(activeId, userMessage, messages, source);
+  };
 
-    try {
-      const aiResponseText = await getAIResponse(messageText);
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponseText,
+  // Server voice backend: /voice already answered, so just record both sides.
+  // The turn goes in right away, before its reply starts playing (a barge-in
+  // marks the latest reply); the recording is added once it's encoded.
+  const handleVoiceTurn = ({ userAudio, transcript, reply, replyAudio }: VoiceTurn) => {
+    if (!activeId) return;
+    const conversationId = activeId;
+    const userMessageId = createId();
+
+    const now = new Date();
+    appendMessages(conversationId, [
+      {
+        id: userMessageId,
+        content: transcript?.trim() ?? "",
+        isUser: true,
+        timestamp: now,
+        source: "voice",
+      },
+      {
+        id: createId(),
+        content: reply?.trim() ?? "",
         isUser: false,
-        timestamp: new Date(),
-      };
+        timestamp: now,
+        source: "voice",
+        audio: replyAudio,
+      },
+    ]);
+
+    blobToBase64(userAudio)
+      .then((data) => {
+        const audio: AudioAttachment = { data, mimeType: userAudio.type };
+        updateMessages(conversationId, (prev) =>
+          prev.map((m) => (m.id === userMessageId ? { ...m, audio } : m))
+        );
+      })
+      .catch((error) => console.error("Could not keep voice recording:", error));
+  };
 
-      setMessages((prev) => [...prev, aiResponse]);
+  // Barge-in: the reply being spoken is always the latest one
+  const markReplyInterrupted = () => {
+    const reply = [...messages].reverse().find((m) => !m.isUser);
+    if (!activeId || !reply) return;
+    updateMessages(activeId, (prev) =>
+      prev.map((m) => (m.id === reply.id ? { ...m, interrupted: true } : m))
+    );
+  };
 
-      if (isVoiceMode) {
-        speakText(aiResponseText);
-      }
-    } catch (error) {
-      console.error("Error processing message:", error);
+  // Ask again with the prompt that preceded a reply. A failed reply is
+  // replaced; a good one is kept as a sibling branch.
+  const regenerateReply = (replyId: string) => {
+    if (!activeId) return;
+
+    const index = messages.findIndex((m) => m.id === replyId);
+    const promptIndex = findPromptIndex(messages, index);
+    if (index === -1 || promptIndex === -1) return;
+
+    if (messages[index].error) {
+      updateMessages(activeId, (prev) => removeMessage(prev, replyId));
+    }
+    requestReply(activeId, messages[promptIndex], messages.slice(0, promptIndex));
+  };
+
+  // A prompt with nothing to send (e.g. an empty voice transcript) can't be asked again
+  const canRegenerate = (replyIndex: number) => {
+    const prompt = messages[findPromptIndex(messages, replyIndex)];
+    return !!prompt && (prompt.content.trim() !== "" || !!prompt.attachments?.length);
+  };
+
+  // Ask an edited version of a user message as a new branch beside it
+  const editMessage = (messageId: string, content: string) => {
+    if (!activeId) return;
+
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index === -1) return;
+
+    const edited: Message = {
+      id: createId(),
+      parentId: messages[index].parentId,
+      content,
+      isUser: true,
+      timestamp: new Date(),
+      attachments: messages[index].attachments,
+    };
+    appendMessages(activeId, [edited], edited.parentId);
+    requestReply(activeId, edited, messages.slice(0, index));
+  };
+
+  const deleteMessage = (messageId: string) => {
+    if (!activeId) return;
+    updateMessages(activeId, (prev) => removeMessage(prev, messageId));
+  };
+
+  // Step to the previous/next alternative of a branched message
+  const switchBranch = (messageId: string, offset: number) => {
+    if (!activeConversation) return;
+    const message = activeConversation.messages.find((m) => m.id === messageId);
+    if (!message) return;
+
+    const siblings = getSiblings(activeConversation.messages, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (target) selectBranch(activeConversation.id, target.id);
+  };
+
+  // Stops the open conversation's reply; others keep streaming
+  const stopGenerating = () => {
+    if (activeId) abortControllersRef.current.get(activeId)?.abort();
+  };
+
+  const clearConversation = () => {
+    if (!activeId) return;
+    stopGenerating();
+    updateMessages(activeId, () => [createGreeting()]);
+  };
+
+  const voice = useVoiceEngine({
+    backend: settings.voiceBackend,
+    inputMode: settings.voiceInputMode,
+    vad: { sensitivity: settings.vadSensitivity, silenceMs: settings.vadSilenceMs },
+    recording: { format: settings.voiceUploadFormat, sampleRate: settings.voiceSampleRate },
+    speech: {
+      voiceURI: settings.ttsVoiceURI,
+      rate: settings.ttsRate,
+      pitch: settings.ttsPitch,
+      volume: settings.ttsVolume,
+      matchLanguage: settings.ttsMatchLanguage,
+    },
+    language: settings.speechLanguage,
+    confirmBeforeSend: settings.voiceConfirmBeforeSend,
+    bargeIn: settings.bargeIn,
+    sessionId: activeId ?? undefined,
+    onUtterance: (transcript) => processMessage(transcript, "voice"),
+    onVoiceTurn: handleVoiceTurn,
+    onInterrupted: markReplyInterrupted,
+    onError: (message) =>
       toast({
-        title: "Error",
-        description: "Failed to get AI response",
+        title: "Voice Mode Error",
+        description: message,
         variant: "destructive",
+      }),
+  });
+  const isVoiceMode = voice.isActive;
+
+  // Position of each shown message among its alternatives, for "< 2/3 >"
+  const branches = useMemo(() => {
+    const all = activeConversation?.messages ?? EMPTY_MESSAGES;
+    return new Map(
+      messages.map((message) => {
+        const siblings = getSiblings(all, message);
+        return [message.id, { index: siblings.indexOf(message), count: siblings.length }];
+      })
+    );
+  }, [activeConversation, messages]);
+
+  // Prompts sent in this thread, oldest first, for recalling with the Up arrow
+  const promptHistory = useMemo(
+    () =>
+      messages
+        .filter((m) => m.isUser && m.content.trim())
+        .map((m) => m.content)
+        .filter((content, i, all) => content !== all[i - 1]),
+    [messages]
+  );
+
+  const toggleVoiceMode = () => {
+    if (voice.isActive) {
+      voice.stop();
+      toast({
+        title: "Voice Mode Deactivated",
+        description: "Switched back to text mode",
       });
+      return;
     }
+
+    if (!voice.start()) return;
+    toast({
+      title: "Voice Mode Activated",
+      description: "Listening for your voice...",
+    });
   };
 
-  const handleSendMessage = () => {
-    processMessage(inputValue);
+  const commandContext: CommandContext = {
+    newConversation: handleCreateConversation,
+    clearConversation,
+    toggleVoiceMode,
+    exportConversation: (kind) => {
+      if (activeConversation) downloadConversation(activeConversation, kind);
+    },
+    openSearch: () => setIsSearchOpen(true),
+    openSettings: () => setIsSettingsOpen(true),
+    notify: (title, description) => toast({ title, description }),
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const runCommand = (command: AppCommand, args = "") => {
+    try {
+      command.run(commandContext, args);
+    } catch (error) {
+      if (!(error instanceof CommandError)) throw error;
+      toast({ title: `/${command.name}`, description: error.message, variant: "destructive" });
     }
   };
 
-  const toggleVoiceMode = () => {
-    const newVoiceMode = !isVoiceMode;
-    setIsVoiceMode(newVoiceMode);
-
-    if (newVoiceMode) {
-      if (recognitionRef.current) {
-        setRecognitionActive(true);
-        setIsListening(true);
-        try {
-          recognitionRef.current.start();
-          toast({
-            title: "Voice Mode Activated",
-            description: "Listening for your voice...",
-          });
-        } catch (error) {
-          console.error("Error starting voice recognition:", error);
-          setIsListening(false);
-          setRecognitionActive(false);
-        }
-      } else {
-        toast({
-          title: "Voice Not Supported",
-          description: "Your browser doesn't support voice recognition",
-          variant: "destructive",
-        });
-        setIsVoiceMode(false);
-      }
-    } else {
-      setRecognitionActive(false);
-      setIsListening(false);
-      if (recognitionRef.current) recognitionRef.current.stop();
-      if (speechSynthesisRef.current) {
-        speechSynthesis.cancel();
-        setIsSpeaking(false);
-      }
+  // Put a command that needs arguments into the composer for the user to finish
+  const startCommand = (command: AppCommand) => {
+    setInputValue(`/${command.name} `);
+    inputRef.current?.focus();
+  };
+
+  const handleSendMessage = () => {
+    const slash = parseSlashCommand(inputValue);
+    // Unknown names are ordinary text ("/usr is a directory?") unless they
+    // look like a mistyped command
+    const similar = slash && !slash.command ? findSimilarCommand(slash.name) : undefined;
+    if (!slash || (!slash.command && !similar)) {
+      processMessage(unescapeSlash(inputValue), undefined, attachments);
+      return;
+    }
+    if (!slash.command) {
       toast({
-        title: "Voice Mode Deactivated",
-        description: "Switched back to text mode",
+        title: `Unknown command /${slash.name}`,
+        description: `Did you mean /${similar.name}? Start with // to send it as a message.`,
+        variant: "destructive",
       });
+      return;
     }
+    setInputValue("");
+    runCommand(slash.command, slash.args);
   };
 
   return (
-    <div className="flex h-screen bg-gradient-chat">
-      <div className="flex-1 flex flex-col max-w-4xl mx-auto">
-        {/* Header */}
-        <header className="p-6 border-b border-border/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-2xl font-bold bg-gradient-ai bg-clip-text text-transparent">
-                AI Assistant
-              </h1>
-              <p className="text-muted-foreground">
-                Your intelligent chat companion
-              </p>
-            </div>
-            <Button
-              onClick={toggleVoiceMode}
-              variant={isVoiceMode ? "default" : "outline"}
-              size="lg"
-              className={cn(
-                "transition-all duration-300",
-                isVoiceMode && "bg-gradient-ai shadow-ai"
-              )}
-            >
-              {isVoiceMode ? (
-                <MicOff className="w-5 h-5" />
-              ) : (
-                <Mic className="w-5 h-5" />
-              )}
-              {isVoiceMode ? "Exit Voice" : "Voice Mode"}
-            </Button>
-          </div>
-        </header>
-
-        <div className="flex-1 flex">
-          {/* Chat Area */}
-          <div className="flex-1 flex flex-col">
-            {/* Messages */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-4">
-              {messages.map((message) => (
-                <div
-                  key={message.id}
+    <SidebarProvider>
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeId}
+        isLoaded={isLoaded}
+        onSelect={(id) => openConversation(id)}
+        onCreate={handleCreateConversation}
+        onRename={renameConversation}
+        onTogglePinned={togglePinned}
+        onDelete={handleDeleteConversation}
+      />
+      <div className="flex-1 flex h-screen bg-gradient-chat">
+        <div className="flex-1 flex flex-col max-w-4xl mx-auto">
+          {/* Header */}
+          <header className="p-6 border-b border-border/50">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <div>
+                  <h1 className="text-2xl font-bold bg-gradient-ai bg-clip-text text-transparent">
+                    AI Assistant
+                  </h1>
+                  <p className="text-muted-foreground">
+                    {activeConversation?.title ?? "Your intelligent chat companion"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={() => setIsPaletteOpen(true)}
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Commands"
+                  title="Commands (Ctrl+Shift+P)"
+                >
+                  <SquareSlash className="w-5 h-5" />
+                </Button>
+                <Button
+                  onClick={() => setIsSearchOpen(true)}
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Search conversations"
+                  title="Search (Ctrl+K)"
+                >
+                  <Search className="w-5 h-5" />
+                </Button>
+                <ConversationTransferMenu
+                  conversation={activeConversation}
+                  conversations={conversations}
+                  onImport={handleImport}
+                />
+                <Button
+                  onClick={() => setIsSettingsOpen(true)}
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Settings"
+                >
+                  <Settings className="w-5 h-5" />
+                </Button>
+                <Button
+                  onClick={toggleVoiceMode}
+                  variant={isVoiceMode ? "default" : "outline"}
+                  size="lg"
                   className={cn(
-                    "flex",
-                    message.isUser ? "justify-end" : "justify-start"
+                    "transition-all duration-300",
+                    isVoiceMode && "bg-gradient-ai shadow-ai"
                   )}
                 >
-                  <Card
-                    className={cn(
-                      "max-w-[80%] p-4 transition-all duration-300",
-                      message.isUser
-                        ? "bg-gradient-ai text-primary-foreground shadow-ai"
-                        : "bg-card border-border/50 shadow-chat"
-                    )}
-                  >
-                    <p className="text-sm leading-relaxed">{message.content}</p>
-                    <p className="text-xs opacity-70 mt-2">
-                      {message.timestamp.toLocaleTimeString([], {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })}
-                    </p>
-                  </Card>
-                </div>
-              ))}
-              <div ref={messagesEndRef} />
+                  {isVoiceMode ? (
+                    <MicOff className="w-5 h-5" />
+                  ) : (
+                    <Mic className="w-5 h-5" />
+                  )}
+                  {isVoiceMode ? "Exit Voice" : "Voice Mode"}
+                </Button>
+              </div>
             </div>
+          </header>
+
+          {serverStatus === "offline" && (
+            <ServerStatusBanner
+              apiUrl={apiUrl}
+              isChecking={isCheckingServer}
+              onRetry={recheckServer}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+            />
+          )}
 
-            {/* Input Area */}
-            {!isVoiceMode && (
-              <div className="p-6 border-t border-border/50">
-                <div className="flex gap-3">
-                  <Input
-                    value={inputValue}
-                    onChange={(e) => setInputValue(e.target.value)}
-                    onKeyPress={handleKeyPress}
-                    placeholder="Type your message..."
-                    className="flex-1 bg-secondary/50 border-border/50 focus:border-ai-primary transition-colors"
-                  />
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={!inputValue.trim()}
-                    className="bg-gradient-ai shadow-ai hover:shadow-lg transition-all duration-300"
-                  >
-                    <Send className="w-4 h-4" />
-                  </Button>
+          {isMissingConversation ? (
+            <ConversationNotFound
+              conversationId={routeConversationId}
+              onCreate={handleCreateConversation}
+            />
+          ) : (
+            <div className="flex-1 flex">
+              {/* Chat Area */}
+              <div className="flex-1 flex flex-col">
+                {/* Messages */}
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                  {messages.map((message, index) => (
+                    <MessageBubble
+                      key={message.id}
+                      message={message}
+                      onRetry={regenerateReply}
+                      onRegenerate={canRegenerate(index) ? regenerateReply : undefined}
+                      onEdit={editMessage}
+                      onDelete={deleteMessage}
+                      branch={branches.get(message.id)}
+                      onSwitchBranch={switchBranch}
+                      isBusy={isGenerating}
+                      isHighlighted={message.id === highlightedId}
+                    />
+                  ))}
+                  <div ref={messagesEndRef} />
                 </div>
+
+                {/* Input Area */}
+                {isVoiceMode ? (
+                  <VoiceTranscriptInput
+                    caption={voice.caption}
+                    pendingTranscript={voice.pendingTranscript}
+                    onConfirm={voice.confirmTranscript}
+                    onDiscard={voice.discardTranscript}
+                    isResponding={voice.phase === "transcribing" || isGenerating}
+                    onStop={() => {
+                      stopGenerating();
+                      voice.cancelRequest();
+                    }}
+                  />
+                ) : (
+                  <div className="p-6 border-t border-border/50">
+                    <MessageComposer
+                      ref={inputRef}
+                      value={inputValue}
+                      onChange={setInputValue}
+                      onSubmit={handleSendMessage}
+                      onStop={stopGenerating}
+                      isGenerating={isGenerating}
+                      history={promptHistory}
+                      onRunCommand={(command) => runCommand(command)}
+                      attachments={attachments}
+                      onAddFiles={addFiles}
+                      onRemoveAttachment={removeAttachment}
+                    />
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-
-          {/* Avatar Panel (only animation, no chat) */}
-          {isVoiceMode && (
-            <div className="w-80 border-l border-border/50 p-6">
-              <ChatAvatar
-                isListening={isListening}
-                isVoiceMode={isVoiceMode}
-                isSpeaking={isSpeaking}
-              />
+
+              {/* Avatar Panel */}
+              {isVoiceMode && (
+                <div className="w-80 border-l border-border/50 p-6 flex flex-col gap-6">
+                  <div className="flex-1 min-h-0">
+                    <ChatAvatar phase={voice.phase} />
+                  </div>
+                  {voice.caption && (
+                    <p
+                      className="text-sm text-center italic text-muted-foreground line-clamp-3"
+                      aria-live="polite"
+                    >
+                      "{voice.caption}"
+                    </p>
+                  )}
+                  {settings.voiceInputMode === "push-to-talk" && (
+                    <PushToTalkButton
+                      onPress={voice.pressToTalk}
+                      onRelease={voice.releaseToTalk}
+                    />
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
       </div>
-    </div>
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+      <SearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        conversations={conversations}
+        onSelect={jumpToMessage}
+      />
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        onRun={runCommand}
+        onStartCommand={startCommand}
+      />
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,46 @@
+import { useRef, useState, type ComponentPropsWithoutRef } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type CodeBlockProps = ComponentPropsWithoutRef<"pre">;
+
+const COPIED_RESET_MS = 2000;
+
+// Fenced code from Markdown, with a copy button in the corner
+const CodeBlock = ({ children, ...props }: CodeBlockProps) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    } catch (error) {
+      console.error("Could not copy code:", error);
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <pre
+        ref={preRef}
+        {...props}
+        className="overflow-x-auto rounded-md bg-background/60 border border-border/50 p-3 pr-10 text-xs leading-relaxed font-mono"
+      >
+        {children}
+      </pre>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={copy}
+        className="absolute top-1.5 right-1.5 h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+        aria-label={copied ? "Copied" : "Copy code"}
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+      </Button>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,72 @@
+import { useRef } from "react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { COMMANDS, type AppCommand } from "@/lib/commands";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRun: (command: AppCommand) => void;
+  // Commands that take arguments are finished in the composer
+  onStartCommand: (command: AppCommand) => void;
+}
+
+// Ctrl/Cmd+Shift+P list of every app command
+const CommandPalette = ({ open, onOpenChange, onRun, onStartCommand }: CommandPaletteProps) => {
+  // Handed to the composer once the dialog has given focus back
+  const startedRef = useRef<AppCommand | null>(null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="overflow-hidden p-0 shadow-lg"
+        onCloseAutoFocus={(e) => {
+          const command = startedRef.current;
+          startedRef.current = null;
+          if (!command) return;
+          e.preventDefault();
+          onStartCommand(command);
+        }}
+      >
+        <DialogTitle className="sr-only">Commands</DialogTitle>
+        <Command className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5">
+          <CommandInput placeholder="Type a command..." />
+          <CommandList>
+            <CommandEmpty>No matching commands.</CommandEmpty>
+            <CommandGroup heading="Commands">
+              {COMMANDS.map((command) => {
+                const Icon = command.icon;
+                return (
+                  <CommandItem
+                    key={command.name}
+                    value={`${command.title} ${command.name}`}
+                    keywords={[command.description]}
+                    onSelect={() => {
+                      if (command.argumentHint) startedRef.current = command;
+                      else onRun(command);
+                      onOpenChange(false);
+                    }}
+                  >
+                    <Icon className="mr-2" />
+                    <span>{command.title}</span>
+                    <CommandShortcut>/{command.name}</CommandShortcut>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
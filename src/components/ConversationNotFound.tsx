@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { MessageSquareX, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ConversationNotFoundProps {
+  conversationId: string;
+  onCreate: () => void;
+}
+
+const ConversationNotFound = ({ conversationId, onCreate }: ConversationNotFoundProps) => {
+  useEffect(() => {
+    console.warn("Conversation not found:", conversationId);
+  }, [conversationId]);
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+      <MessageSquareX className="w-12 h-12 text-muted-foreground mb-4" />
+      <h2 className="text-xl font-semibold mb-2">Conversation not found</h2>
+      <p className="text-muted-foreground mb-6 max-w-sm">
+        This conversation may have been deleted, or it was saved in a different browser.
+      </p>
+      <Button onClick={onCreate} className="bg-gradient-ai shadow-ai">
+        <Plus className="w-4 h-4" />
+        Start a new chat
+      </Button>
+    </div>
+  );
+};
+
+export default ConversationNotFound;
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import type { Conversation } from "@/types/chat";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  isLoaded: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePinned: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar = ({
+  conversations,
+  activeId,
+  isLoaded,
+  onSelect,
+  onCreate,
+  onRename,
+  onTogglePinned,
+  onDelete,
+}: ConversationSidebarProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+
+  const pinned = conversations.filter((c) => c.pinned);
+  const recent = conversations.filter((c) => !c.pinned);
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId) onRename(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  const renderItem = (conversation: Conversation) => (
+    <SidebarMenuItem key={conversation.id}>
+      {renamingId === conversation.id ? (
+        <SidebarInput
+          autoFocus
+          value={renameValue}
+          onChange={(e) => setRenameValue(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") setRenamingId(null);
+          }}
+          aria-label="Conversation title"
+        />
+      ) : (
+        <>
+          <SidebarMenuButton
+            isActive={conversation.id === activeId}
+            onClick={() => onSelect(conversation.id)}
+            onDoubleClick={() => startRename(conversation)}
+            tooltip={conversation.title}
+          >
+            <MessageSquare />
+            <span>{conversation.title}</span>
+          </SidebarMenuButton>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuAction showOnHover>
+                <MoreHorizontal />
+                <span className="sr-only">Conversation actions</span>
+              </SidebarMenuAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              side="right"
+              align="start"
+              // Keep focus on the rename input instead of the trigger
+              onCloseAutoFocus={(e) => e.preventDefault()}
+            >
+              <DropdownMenuItem onSelect={() => startRename(conversation)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onTogglePinned(conversation.id)}>
+                {conversation.pinned ? (
+                  <PinOff className="w-4 h-4 mr-2" />
+                ) : (
+                  <Pin className="w-4 h-4 mr-2" />
+                )}
+                {conversation.pinned ? "Unpin" : "Pin"}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => setPendingDelete(conversation)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      )}
+    </SidebarMenuItem>
+  );
+
+  return (
+    <>
+      <Sidebar collapsible="offcanvas">
+        <SidebarHeader>
+          <Button onClick={onCreate} variant="outline" className="w-full justify-start">
+            <Plus className="w-4 h-4" />
+            New chat
+          </Button>
+        </SidebarHeader>
+        <SidebarContent>
+          {!isLoaded ? (
+            <SidebarGroup>
+              <SidebarMenu>
+                {[...Array(4)].map((_, i) => (
+                  <SidebarMenuItem key={i}>
+                    <SidebarMenuSkeleton showIcon />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroup>
+          ) : (
+            <>
+              {pinned.length > 0 && (
+                <SidebarGroup>
+                  <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+                  <SidebarGroupContent>
+                    <SidebarMenu>{pinned.map(renderItem)}</SidebarMenu>
+                  </SidebarGroupContent>
+                </SidebarGroup>
+              )}
+              <SidebarGroup>
+                <SidebarGroupLabel>Recent</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>{recent.map(renderItem)}</SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            </>
+          )}
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && onDelete(pendingDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ConversationSidebar;
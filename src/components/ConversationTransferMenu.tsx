@@ -0,0 +1,104 @@
+import { useRef } from "react";
+import { Download, FileJson, FileText, FileType, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadConversation,
+  downloadFile,
+  exportConversationsJson,
+  exportFilename,
+} from "@/lib/conversation-transfer";
+import type { Conversation } from "@/types/chat";
+
+interface ConversationTransferMenuProps {
+  conversation: Conversation | null;
+  conversations: Conversation[];
+  // Receives the picked file's contents
+  onImport: (json: string) => void;
+}
+
+// Header menu for exporting the open (or every) conversation and importing JSON exports
+const ConversationTransferMenu = ({
+  conversation,
+  conversations,
+  onImport,
+}: ConversationTransferMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text());
+    // Allow picking the same file again
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Export or import">
+            <Download className="w-5 h-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>This conversation</DropdownMenuLabel>
+          <DropdownMenuItem
+            disabled={!conversation}
+            onSelect={() => conversation && downloadConversation(conversation, "markdown")}
+          >
+            <FileType className="w-4 h-4 mr-2" />
+            Markdown
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!conversation}
+            onSelect={() => conversation && downloadConversation(conversation, "text")}
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Plain text
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!conversation}
+            onSelect={() => conversation && downloadConversation(conversation, "json")}
+          >
+            <FileJson className="w-4 h-4 mr-2" />
+            JSON (all branches)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={conversations.length === 0}
+            onSelect={() =>
+              downloadFile(
+                exportFilename("all-conversations", "json"),
+                exportConversationsJson(conversations),
+                "json"
+              )
+            }
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export all as JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import JSON…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </>
+  );
+};
+
+export default ConversationTransferMenu;
@@ -0,0 +1,79 @@
+import { memo } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import CodeBlock from "./CodeBlock";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Raw HTML in the source is never rendered (there's no rehype-raw), and
+// react-markdown drops unsafe link protocols such as javascript:
+const components: Components = {
+  a: ({ node: _node, ...props }) => (
+    <a
+      {...props}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-ai-primary underline underline-offset-2 hover:opacity-80"
+    />
+  ),
+  pre: ({ node: _node, ...props }) => <CodeBlock {...props} />,
+  table: ({ node: _node, ...props }) => (
+    <div className="rounded-md border border-border/50">
+      <Table {...props} />
+    </div>
+  ),
+  thead: ({ node: _node, ...props }) => <TableHeader {...props} />,
+  tbody: ({ node: _node, ...props }) => <TableBody {...props} />,
+  tr: ({ node: _node, ...props }) => <TableRow {...props} />,
+  th: ({ node: _node, ...props }) => <TableHead {...props} />,
+  td: ({ node: _node, ...props }) => <TableCell {...props} />,
+  ul: ({ node: _node, ...props }) => <ul {...props} className="list-disc pl-5 space-y-1" />,
+  ol: ({ node: _node, ...props }) => <ol {...props} className="list-decimal pl-5 space-y-1" />,
+  h1: ({ node: _node, ...props }) => <h1 {...props} className="text-lg font-semibold" />,
+  h2: ({ node: _node, ...props }) => <h2 {...props} className="text-base font-semibold" />,
+  h3: ({ node: _node, ...props }) => <h3 {...props} className="font-semibold" />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote {...props} className="border-l-2 border-border pl-3 text-muted-foreground" />
+  ),
+  hr: () => <hr className="border-border/50" />,
+};
+
+// Assistant replies: GitHub-flavoured Markdown with highlighted code and KaTeX math.
+// Memoized: every streamed token re-renders the whole thread, and only the
+// reply being streamed has new content.
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => (
+  <div
+    className={cn(
+      "text-sm leading-relaxed space-y-3 break-words",
+      "[&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-muted [&_:not(pre)>code]:px-1 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:font-mono [&_:not(pre)>code]:text-xs",
+      "[&_.katex-display]:overflow-x-auto",
+      className
+    )}
+  >
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeHighlight, { detect: true }], rehypeKatex]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default memo(MarkdownContent);
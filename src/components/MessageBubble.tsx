@@ -0,0 +1,456 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  Ban,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Hand,
+  Mic,
+  MoreHorizontal,
+  Pencil,
+  Play,
+  RefreshCw,
+  Square,
+  Trash2,
+  Volume2,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { markdownToPlainText } from "@/lib/markdown";
+import { getSettings } from "@/lib/settings";
+import { cn } from "@/lib/utils";
+import { playBase64Audio } from "@/lib/voice/audio-playback";
+import { detectTextLanguage, resolveSpeechLanguage } from "@/lib/voice/languages";
+import { speak } from "@/lib/voice/speech-synthesis";
+import type { Message } from "@/types/chat";
+import AttachmentList from "./AttachmentList";
+import MarkdownContent from "./MarkdownContent";
+
+interface MessageBubbleProps {
+  message: Message;
+  onRetry?: (messageId: string) => void;
+  // Offered for replies that answer a prompt; adds a sibling branch
+  onRegenerate?: (messageId: string) => void;
+  // Ask an edited version of a user message as a sibling branch
+  onEdit?: (messageId: string, content: string) => void;
+  onDelete?: (messageId: string) => void;
+  // Where this message sits among its alternatives
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  // A reply is being generated; hold off on actions that send a new request
+  isBusy?: boolean;
+  // Briefly outlined after jumping here from search
+  isHighlighted?: boolean;
+}
+
+interface MessageAction {
+  label: string;
+  icon: LucideIcon;
+  onSelect: () => void;
+  disabled?: boolean;
+}
+
+const MessageBubble = ({
+  message,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  onDelete,
+  branch,
+  onSwitchBranch,
+  isBusy,
+  isHighlighted,
+}: MessageBubbleProps) => {
+  // What's coming out of the speakers for this message, if anything
+  const [playing, setPlaying] = useState<"audio" | "speech" | null>(null);
+  const playbackRef = useRef<AbortController | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => () => playbackRef.current?.abort(), []);
+
+  const startPlayback = async (
+    kind: "audio" | "speech",
+    play: (signal: AbortSignal) => Promise<void>
+  ) => {
+    playbackRef.current?.abort();
+    const playback = new AbortController();
+    playbackRef.current = playback;
+    setPlaying(kind);
+    try {
+      await play(playback.signal);
+    } catch (error) {
+      console.error("Error playing message:", error);
+    } finally {
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        setPlaying(null);
+      }
+    }
+  };
+
+  const toggleAudio = () => {
+    if (playing === "audio") {
+      playbackRef.current?.abort();
+      return;
+    }
+    const { audio } = message;
+    if (!audio) return;
+    startPlayback("audio", (signal) => playBase64Audio(audio.data, signal, audio.mimeType));
+  };
+
+  const toggleReadAloud = () => {
+    if (playing === "speech") {
+      playbackRef.current?.abort();
+      return;
+    }
+    const { ttsVoiceURI, ttsRate, ttsPitch, ttsVolume, ttsMatchLanguage, speechLanguage } =
+      getSettings();
+    const text = message.isUser ? message.content : markdownToPlainText(message.content);
+    startPlayback("speech", (signal) =>
+      speak(text, signal, {
+        voiceURI: ttsVoiceURI,
+        rate: ttsRate,
+        pitch: ttsPitch,
+        volume: ttsVolume,
+        lang: detectTextLanguage(text, resolveSpeechLanguage(speechLanguage)),
+        matchLanguage: ttsMatchLanguage,
+      })
+    );
+  };
+
+  const copyContent = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      toast({ title: "Copied to clipboard" });
+    } catch (error) {
+      console.error("Could not copy message:", error);
+      toast({ title: "Couldn't copy the message", variant: "destructive" });
+    }
+  };
+
+  const startEditing = () => {
+    setEditValue(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = editValue.trim();
+    if (!content || !onEdit) return;
+    setIsEditing(false);
+    if (content !== message.content) onEdit(message.id, content);
+  };
+
+  const hasText = message.content.trim().length > 0;
+  const actions: MessageAction[] = [
+    ...(hasText ? [{ label: "Copy", icon: Copy, onSelect: copyContent }] : []),
+    ...(hasText
+      ? [
+          {
+            label: playing === "speech" ? "Stop reading" : "Read aloud",
+            icon: playing === "speech" ? Square : Volume2,
+            onSelect: toggleReadAloud,
+          },
+        ]
+      : []),
+    ...(onRegenerate && !message.isUser
+      ? [
+          {
+            label: "Regenerate",
+            icon: RefreshCw,
+            onSelect: () => onRegenerate(message.id),
+            disabled: isBusy,
+          },
+        ]
+      : []),
+    ...(onEdit && message.isUser && hasText
+      ? [{ label: "Edit and resend", icon: Pencil, onSelect: startEditing, disabled: isBusy }]
+      : []),
+  ];
+  const showActions = !message.isStreaming && !isEditing;
+
+  const renderBody = () => {
+    if (message.error) {
+      return (
+        <div className="flex items-start gap-2 text-destructive">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div className="space-y-2">
+            <p className="text-sm leading-relaxed">{message.error.message}</p>
+            {message.error.retryable && onRetry && (
+              <Button size="sm" variant="outline" onClick={() => onRetry(message.id)}>
+                <RefreshCw className="w-3 h-3" />
+                Retry
+              </Button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    if (message.isStreaming && !message.content) {
+      return (
+        <div className="flex items-center space-x-1 h-5" aria-label="Assistant is typing">
+          {[...Array(3)].map((_, i) => (
+            <div
+              key={i}
+              className="w-2 h-2 rounded-full bg-ai-primary animate-bounce"
+              style={{ animationDelay: `${i * 200}ms` }}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    if (!message.content && message.stopped) {
+      return <p className="text-sm italic opacity-80">Stopped before a reply arrived.</p>;
+    }
+
+    if (!message.content && message.audio) {
+      return <p className="text-sm italic opacity-80">Voice message</p>;
+    }
+
+    if (!message.content && message.attachments?.length) return null;
+
+    const caret = message.isStreaming && (
+      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+    );
+
+    // Only the assistant's replies are Markdown; user text is shown as typed
+    if (!message.isUser) {
+      return (
+        <>
+          <MarkdownContent content={message.content} />
+          {caret}
+        </>
+      );
+    }
+
+    return (
+      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+        {message.content}
+        {caret}
+      </p>
+    );
+  };
+
+  const card = (
+    <Card
+      className={cn(
+        "max-w-[80%] p-4 transition-all duration-300",
+        isEditing && "w-[80%]",
+        isHighlighted && "ring-2 ring-yellow-400 ring-offset-2 ring-offset-background",
+        message.isUser
+          ? "bg-gradient-ai text-primary-foreground shadow-ai"
+          : message.error
+            ? "bg-destructive/5 border-destructive/50"
+            : "bg-card border-border/50 shadow-chat"
+      )}
+    >
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            autoFocus
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              }
+              if (e.key === "Escape") setIsEditing(false);
+            }}
+            className="min-h-[80px] bg-background/20 border-background/30 text-inherit"
+            aria-label="Edit message"
+          />
+          <p className="text-xs opacity-80">
+            Sending starts a new branch; the original stays available.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={submitEdit}
+              disabled={!editValue.trim() || isBusy}
+            >
+              Send
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {message.attachments?.length > 0 && (
+            <AttachmentList
+              attachments={message.attachments}
+              className={cn(message.content && "mb-2")}
+            />
+          )}
+          {renderBody()}
+        </>
+      )}
+      <div className="flex items-center gap-2 mt-2 text-xs opacity-70">
+        {branch && branch.count > 1 && onSwitchBranch && (
+          <span className="inline-flex items-center" aria-label="Branches">
+            <button
+              type="button"
+              onClick={() => onSwitchBranch(message.id, -1)}
+              disabled={branch.index === 0}
+              className="hover:opacity-100 disabled:opacity-40"
+              aria-label="Previous branch"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span className="tabular-nums">
+              {branch.index + 1}/{branch.count}
+            </span>
+            <button
+              type="button"
+              onClick={() => onSwitchBranch(message.id, 1)}
+              disabled={branch.index === branch.count - 1}
+              className="hover:opacity-100 disabled:opacity-40"
+              aria-label="Next branch"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+          </span>
+        )}
+        {message.source === "voice" && (
+          <span className="inline-flex items-center gap-1" title="Spoken in voice mode">
+            <Mic className="w-3 h-3" />
+            Voice
+          </span>
+        )}
+        {message.stopped && (
+          <span className="inline-flex items-center gap-1" title="Generation was stopped">
+            <Ban className="w-3 h-3" />
+            Stopped
+          </span>
+        )}
+        {message.interrupted && (
+          <span className="inline-flex items-center gap-1" title="You talked over this reply">
+            <Hand className="w-3 h-3" />
+            Interrupted
+          </span>
+        )}
+        {message.audio && (
+          <button
+            type="button"
+            onClick={toggleAudio}
+            className="inline-flex items-center gap-1 hover:opacity-100 underline-offset-2 hover:underline"
+            aria-label={playing === "audio" ? "Stop audio" : "Play audio"}
+          >
+            {playing === "audio" ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {playing === "audio" ? "Stop" : "Play"}
+          </button>
+        )}
+        <span>
+          {message.timestamp.toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </span>
+      </div>
+    </Card>
+  );
+
+  if (!showActions) {
+    return (
+      <div
+        id={`message-${message.id}`}
+        className={cn("flex", message.isUser ? "justify-end" : "justify-start")}
+      >
+        {card}
+      </div>
+    );
+  }
+
+  // The same actions from a hover button and from right-clicking the message
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={cn(
+        "group flex items-start gap-1",
+        message.isUser ? "flex-row-reverse justify-start" : "justify-start"
+      )}
+    >
+      <ContextMenu>
+        <ContextMenuTrigger asChild>{card}</ContextMenuTrigger>
+        <ContextMenuContent>
+          {actions.map(({ label, icon: Icon, onSelect, disabled }) => (
+            <ContextMenuItem key={label} onSelect={onSelect} disabled={disabled}>
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </ContextMenuItem>
+          ))}
+          {onDelete && (
+            <>
+              {actions.length > 0 && <ContextMenuSeparator />}
+              <ContextMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => onDelete(message.id)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+            aria-label="Message actions"
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={message.isUser ? "end" : "start"}>
+          {actions.map(({ label, icon: Icon, onSelect, disabled }) => (
+            <DropdownMenuItem key={label} onSelect={onSelect} disabled={disabled}>
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </DropdownMenuItem>
+          ))}
+          {onDelete && (
+            <>
+              {actions.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => onDelete(message.id)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default MessageBubble;
@@ -0,0 +1,213 @@
+import { forwardRef, useImperativeHandle, useLayoutEffect, useRef, useState } from "react";
+import { Paperclip, Send, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ACCEPT_ATTRIBUTE } from "@/lib/attachments";
+import { estimateTokens } from "@/lib/chat-history";
+import { cn } from "@/lib/utils";
+import type { AppCommand } from "@/lib/commands";
+import { useSlashCommands } from "@/hooks/use-slash-commands";
+import type { FileAttachment } from "@/types/chat";
+import AttachmentList from "./AttachmentList";
+import SlashCommandMenu from "./SlashCommandMenu";
+
+interface MessageComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onStop: () => void;
+  isGenerating: boolean;
+  // Earlier prompts, oldest first, for Up-arrow recall
+  history: string[];
+  onRunCommand: (command: AppCommand) => void;
+  // Files to send with the prompt; added by picking, pasting or dropping
+  attachments: FileAttachment[];
+  onAddFiles: (files: File[]) => void;
+  onRemoveAttachment: (id: string) => void;
+}
+
+const isOnFirstLine = (el: HTMLTextAreaElement) =>
+  !el.value.slice(0, el.selectionStart).includes("\n");
+
+const isOnLastLine = (el: HTMLTextAreaElement) => !el.value.slice(el.selectionEnd).includes("\n");
+
+const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+// Multi-line prompt box: Enter sends, Shift+Enter adds a line, and Up/Down
+// step through earlier prompts while the box is empty
+const MessageComposer = forwardRef<HTMLTextAreaElement, MessageComposerProps>(
+  (
+    {
+      value,
+      onChange,
+      onSubmit,
+      onStop,
+      isGenerating,
+      history,
+      onRunCommand,
+      attachments,
+      onAddFiles,
+      onRemoveAttachment,
+    },
+    ref
+  ) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const canSubmit = value.trim() !== "" || attachments.length > 0;
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+    // Position in `history` being shown; dropped as soon as the text is edited
+    const [recallIndex, setRecallIndex] = useState<number | null>(null);
+    const isRecalling = recallIndex !== null && history[recallIndex] === value;
+
+    const slashCommands = useSlashCommands(value, {
+      onComplete: onChange,
+      onRun: (command) => {
+        onChange("");
+        onRunCommand(command);
+      },
+    });
+
+    // Grow with the content up to the max height, then scroll
+    useLayoutEffect(() => {
+      const el = textareaRef.current;
+      if (!el) return;
+      el.style.height = "auto";
+      el.style.height = `${el.scrollHeight}px`;
+    }, [value]);
+
+    const recall = (index: number | null) => {
+      setRecallIndex(index);
+      onChange(index === null ? "" : history[index]);
+    };
+
+    // Pasted screenshots and files become attachments; text pastes as usual
+    const handlePaste = (e: React.ClipboardEvent) => {
+      const files = Array.from(e.clipboardData.files);
+      if (files.length === 0) return;
+      if (!e.clipboardData.getData("text/plain")) e.preventDefault();
+      onAddFiles(files);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDragging(false);
+      onAddFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (slashCommands.handleKeyDown(e)) return;
+      if (e.nativeEvent.isComposing) return;
+
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        if (canSubmit) onSubmit();
+        return;
+      }
+
+      const noModifiers = !e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey;
+      if (e.key === "ArrowUp" && noModifiers && isOnFirstLine(e.currentTarget)) {
+        if (value && !isRecalling) return;
+        const previous = (isRecalling ? recallIndex : history.length) - 1;
+        if (previous < 0) return;
+        e.preventDefault();
+        recall(previous);
+      } else if (e.key === "ArrowDown" && noModifiers && isRecalling && isOnLastLine(e.currentTarget)) {
+        e.preventDefault();
+        recall(recallIndex + 1 < history.length ? recallIndex + 1 : null);
+      }
+    };
+
+    return (
+      <div
+        className={cn(
+          "space-y-1.5 rounded-lg transition-colors",
+          isDragging && "outline-dashed outline-2 outline-offset-8 outline-ai-primary bg-ai-primary/5"
+        )}
+        onDragOver={(e) => {
+          if (!hasFiles(e)) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          // Ignore moves between children
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {attachments.length > 0 && (
+          <AttachmentList attachments={attachments} onRemove={onRemoveAttachment} />
+        )}
+        <div className="relative flex items-end gap-3">
+          <SlashCommandMenu
+            suggestions={slashCommands.suggestions}
+            activeIndex={slashCommands.activeIndex}
+            onHighlight={slashCommands.setActiveIndex}
+            onSelect={slashCommands.select}
+            activeCommand={slashCommands.activeCommand}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            aria-label="Attach files"
+            title="Attach files"
+          >
+            <Paperclip className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPT_ATTRIBUTE}
+            className="hidden"
+            onChange={(e) => {
+              onAddFiles(Array.from(e.target.files ?? []));
+              // Allow picking the same file again
+              e.target.value = "";
+            }}
+          />
+          <Textarea
+            ref={textareaRef}
+            rows={1}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder="Type a message, or / for commands..."
+            className="flex-1 min-h-[40px] max-h-[200px] resize-none overflow-y-auto bg-secondary/50 border-border/50 focus:border-ai-primary transition-colors"
+            aria-label="Message"
+            aria-autocomplete="list"
+          />
+          {isGenerating ? (
+            <Button onClick={onStop} variant="outline" aria-label="Stop generating">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={onSubmit}
+              disabled={!canSubmit}
+              className="bg-gradient-ai shadow-ai hover:shadow-lg transition-all duration-300"
+              aria-label="Send message"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Enter to send, Shift+Enter for a new line, drop or paste files to attach</span>
+          {value && (
+            <span aria-live="polite">
+              {value.length.toLocaleString()} chars · ~{estimateTokens(value).toLocaleString()}{" "}
+              tokens
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+MessageComposer.displayName = "MessageComposer";
+
+export default MessageComposer;
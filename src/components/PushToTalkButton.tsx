@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Mic } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface PushToTalkButtonProps {
+  onPress: () => void;
+  onRelease: () => void;
+  disabled?: boolean;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Hold the button (or the space bar) to talk, let go to send
+const PushToTalkButton = ({ onPress, onRelease, disabled }: PushToTalkButtonProps) => {
+  const [isHeld, setIsHeld] = useState(false);
+
+  const press = () => {
+    if (disabled) return;
+    setIsHeld(true);
+    onPress();
+  };
+
+  const release = () => {
+    setIsHeld(false);
+    onRelease();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || e.repeat || disabled || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setIsHeld(true);
+      onPress();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTypingTarget(e.target)) return;
+      setIsHeld(false);
+      onRelease();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [disabled, onPress, onRelease]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <Button
+        size="lg"
+        disabled={disabled}
+        onPointerDown={press}
+        onPointerUp={release}
+        onPointerLeave={() => isHeld && release()}
+        className={cn(
+          "rounded-full w-20 h-20 transition-all duration-200 select-none touch-none",
+          isHeld ? "bg-gradient-ai shadow-ai scale-110" : "bg-secondary text-secondary-foreground"
+        )}
+        aria-pressed={isHeld}
+        aria-label="Hold to talk"
+      >
+        <Mic className="w-8 h-8" />
+      </Button>
+      <p className="text-xs text-muted-foreground">Hold to talk, or hold Space</p>
+    </div>
+  );
+};
+
+export default PushToTalkButton;
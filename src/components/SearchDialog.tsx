@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { Bot, User } from "lucide-react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DATE_RANGES,
+  buildSearchIndex,
+  searchMessages,
+  sinceForRange,
+  type DateRange,
+  type SearchSnippet,
+  type SpeakerFilter,
+} from "@/lib/search";
+import type { Conversation } from "@/types/chat";
+
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversations: Conversation[];
+  onSelect: (conversationId: string, messageId: string) => void;
+}
+
+const Highlighted = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  for (const [from, to] of snippet.highlights) {
+    // Overlapping terms ("chat" and "chatbot") share one mark
+    if (to <= cursor) continue;
+    const start = Math.max(from, cursor);
+    if (start > cursor) parts.push(<span key={cursor}>{snippet.text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+        {snippet.text.slice(start, to)}
+      </mark>
+    );
+    cursor = to;
+  }
+  parts.push(<span key={cursor}>{snippet.text.slice(cursor)}</span>);
+  return <>{parts}</>;
+};
+
+// Ctrl/Cmd+K search across every message in every conversation
+const SearchDialog = ({ open, onOpenChange, conversations, onSelect }: SearchDialogProps) => {
+  const [query, setQuery] = useState("");
+  const [speaker, setSpeaker] = useState<SpeakerFilter>("all");
+  const [range, setRange] = useState<DateRange>("any");
+
+  // Only rebuilt while the dialog is open, so streaming replies don't churn it
+  const index = useMemo(
+    () => (open ? buildSearchIndex(conversations) : []),
+    [open, conversations]
+  );
+  const hits = useMemo(
+    () => searchMessages(index, query, { speaker, since: sinceForRange(range) }),
+    [index, query, speaker, range]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12">
+          <CommandInput
+            placeholder="Search all conversations..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={speaker}
+              onValueChange={(value) => value && setSpeaker(value as SpeakerFilter)}
+            >
+              <ToggleGroupItem value="all" className="text-xs">All</ToggleGroupItem>
+              <ToggleGroupItem value="user" className="text-xs">You</ToggleGroupItem>
+              <ToggleGroupItem value="assistant" className="text-xs">Assistant</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_RANGES).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <CommandList className="max-h-[400px]">
+            {query.trim() && <CommandEmpty>No messages found.</CommandEmpty>}
+            {hits.length > 0 && (
+              <CommandGroup heading={`${hits.length} result${hits.length === 1 ? "" : "s"}`}>
+                {hits.map(({ conversation, message, snippet }) => (
+                  <CommandItem
+                    key={`${conversation.id}:${message.id}`}
+                    value={`${conversation.id}:${message.id}`}
+                    onSelect={() => {
+                      onSelect(conversation.id, message.id);
+                      onOpenChange(false);
+                    }}
+                    className="flex items-start gap-2 py-2"
+                  >
+                    {message.isUser ? (
+                      <User className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Bot className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate font-medium">{conversation.title}</span>
+                        <span className="shrink-0">{message.timestamp.toLocaleDateString()}</span>
+                      </div>
+                      <p className="line-clamp-2 text-sm">
+                        <Highlighted snippet={snippet} />
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,34 @@
+import { AlertTriangle, RefreshCw, Settings } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface ServerStatusBannerProps {
+  apiUrl: string;
+  isChecking: boolean;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+}
+
+const ServerStatusBanner = ({ apiUrl, isChecking, onRetry, onOpenSettings }: ServerStatusBannerProps) => (
+  <Alert variant="destructive" className="rounded-none border-x-0 border-t-0">
+    <AlertTriangle className="h-4 w-4" />
+    <AlertTitle>Server unreachable</AlertTitle>
+    <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+      <span>
+        Can't reach the assistant at <code className="font-mono">{apiUrl}</code>.
+      </span>
+      <span className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={onRetry} disabled={isChecking}>
+          <RefreshCw className={isChecking ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+          Retry
+        </Button>
+        <Button size="sm" variant="outline" onClick={onOpenSettings}>
+          <Settings className="w-4 h-4" />
+          Settings
+        </Button>
+      </span>
+    </AlertDescription>
+  </Alert>
+);
+
+export default ServerStatusBanner;
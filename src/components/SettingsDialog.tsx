@@ -0,0 +1,439 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_API_URL,
+  checkHealth,
+  isValidApiUrl,
+  normalizeApiUrl,
+  setApiBaseUrl,
+} from "@/lib/api";
+import {
+  DEFAULT_SETTINGS,
+  HISTORY_MAX_CHARS_LIMIT,
+  HISTORY_MAX_TURNS_LIMIT,
+  MODEL_MAX_LENGTH,
+  SYSTEM_PROMPT_MAX_LENGTH,
+  type AppSettings,
+} from "@/lib/settings";
+import { AUTO_LANGUAGE, SPEECH_LANGUAGES } from "@/lib/voice/languages";
+import type { UploadFormat } from "@/lib/voice/recorder";
+import type { VoiceBackendKind, VoiceInputMode } from "@/lib/voice/types";
+import { useApiUrl } from "@/hooks/use-api-url";
+import { useSettings } from "@/hooks/use-settings";
+import SpeechSettings from "./SpeechSettings";
+
+const SAMPLE_RATES = [8000, 16_000, 24_000, 44_100, 48_000];
+
+// Inputs are capped at the schema limits (see lib/settings)
+const HISTORY_LIMITS = {
+  historyMaxTurns: HISTORY_MAX_TURNS_LIMIT,
+  historyMaxChars: HISTORY_MAX_CHARS_LIMIT,
+};
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type TestResult = "idle" | "testing" | "online" | "offline";
+
+const SettingsDialog = ({ open, onOpenChange }: SettingsDialogProps) => {
+  const apiUrl = useApiUrl();
+  const { settings, updateSettings } = useSettings();
+  const [draftUrl, setDraftUrl] = useState(apiUrl);
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [testResult, setTestResult] = useState<TestResult>("idle");
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+
+  // Start from the saved values each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraftUrl(apiUrl);
+      setDraft(settings);
+      setTestResult("idle");
+      setHistoryNotice(null);
+    }
+  }, [open, apiUrl, settings]);
+
+  const setDraftNumber = (key: keyof typeof HISTORY_LIMITS, value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    const limit = HISTORY_LIMITS[key];
+    setHistoryNotice(
+      parsed > limit ? `The maximum is ${limit.toLocaleString()}; the value was capped.` : null
+    );
+    setDraft((prev) => ({
+      ...prev,
+      [key]: Number.isNaN(parsed) ? 0 : Math.min(limit, Math.max(0, parsed)),
+    }));
+  };
+
+  const isDraftValid = isValidApiUrl(draftUrl);
+
+  const testConnection = async () => {
+    setTestResult("testing");
+    setTestResult((await checkHealth(draftUrl)) ? "online" : "offline");
+  };
+
+  const save = () => {
+    setApiBaseUrl(normalizeApiUrl(draftUrl));
+    updateSettings(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Configure the assistant's backend and behaviour.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="server">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="server">Server</TabsTrigger>
+            <TabsTrigger value="conversation">Conversation</TabsTrigger>
+            <TabsTrigger value="voice">Voice</TabsTrigger>
+            <TabsTrigger value="speech">Speech</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="server" className="space-y-2">
+            <Label htmlFor="api-url">Server URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="api-url"
+                value={draftUrl}
+                onChange={(e) => {
+                  setDraftUrl(e.target.value);
+                  setTestResult("idle");
+                }}
+                placeholder={DEFAULT_API_URL}
+                aria-invalid={!isDraftValid}
+              />
+              <Button
+                variant="outline"
+                onClick={testConnection}
+                disabled={!isDraftValid || testResult === "testing"}
+              >
+                {testResult === "testing" && <Loader2 className="w-4 h-4 animate-spin" />}
+                Test
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {!isDraftValid ? (
+                <span className="text-destructive">Enter a full http:// or https:// URL.</span>
+              ) : testResult === "online" ? (
+                <span className="inline-flex items-center gap-1 text-green-600">
+                  <CheckCircle2 className="w-3 h-3" /> Server reachable
+                </span>
+              ) : testResult === "offline" ? (
+                <span className="inline-flex items-center gap-1 text-destructive">
+                  <XCircle className="w-3 h-3" /> Server unreachable
+                </span>
+              ) : (
+                <>Build default: {DEFAULT_API_URL}</>
+              )}
+            </p>
+          </TabsContent>
+
+          <TabsContent value="conversation" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Earlier messages are sent with each prompt so the assistant remembers the conversation.
+              Whichever limit is reached first applies.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="history-max-turns">Max messages</Label>
+                <Input
+                  id="history-max-turns"
+                  type="number"
+                  min={0}
+                  max={HISTORY_MAX_TURNS_LIMIT}
+                  value={draft.historyMaxTurns}
+                  onChange={(e) => setDraftNumber("historyMaxTurns", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-max-chars">Max characters</Label>
+                <Input
+                  id="history-max-chars"
+                  type="number"
+                  min={0}
+                  max={HISTORY_MAX_CHARS_LIMIT}
+                  step={1000}
+                  value={draft.historyMaxChars}
+                  onChange={(e) => setDraftNumber("historyMaxChars", e.target.value)}
+                />
+              </div>
+            </div>
+            {historyNotice && (
+              <p className="text-xs text-destructive" role="alert">
+                {historyNotice}
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="system-prompt">System prompt</Label>
+              <Textarea
+                id="system-prompt"
+                value={draft.systemPrompt}
+                onChange={(e) => setDraft((prev) => ({ ...prev, systemPrompt: e.target.value }))}
+                placeholder="Server default"
+                maxLength={SYSTEM_PROMPT_MAX_LENGTH}
+                className="min-h-[80px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="model">Model</Label>
+              <Input
+                id="model"
+                value={draft.model}
+                onChange={(e) => setDraft((prev) => ({ ...prev, model: e.target.value.trim() }))}
+                placeholder="Server default"
+                maxLength={MODEL_MAX_LENGTH}
+              />
+              <p className="text-xs text-muted-foreground">
+                Also settable from the composer with /system and /model.
+              </p>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="voice" className="space-y-3">
+            <Label>Voice backend</Label>
+            <RadioGroup
+              value={draft.voiceBackend}
+              onValueChange={(value) =>
+                setDraft((prev) => ({ ...prev, voiceBackend: value as VoiceBackendKind }))
+              }
+            >
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="browser" id="voice-backend-browser" className="mt-1" />
+                <Label htmlFor="voice-backend-browser" className="font-normal leading-snug">
+                  <span className="font-medium">Browser</span>
+                  <span className="block text-muted-foreground">
+                    Your browser recognises speech and reads replies aloud. Replies come from /chat.
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="server" id="voice-backend-server" className="mt-1" />
+                <Label htmlFor="voice-backend-server" className="font-normal leading-snug">
+                  <span className="font-medium">Server</span>
+                  <span className="block text-muted-foreground">
+                    Recorded audio is sent to /voice, which transcribes it and answers with speech.
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+
+            <div className="space-y-2 pt-2">
+              <Label htmlFor="speech-language">Language</Label>
+              <Select
+                value={draft.speechLanguage}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, speechLanguage: value }))}
+              >
+                <SelectTrigger id="speech-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  <SelectItem value={AUTO_LANGUAGE}>Automatic ({navigator.language})</SelectItem>
+                  {SPEECH_LANGUAGES.map(({ code, label }) => (
+                    <SelectItem key={code} value={code}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used to recognise what you say and sent to the server with each message.
+              </p>
+            </div>
+
+            <div className="space-y-2 pt-2">
+              <Label>Input mode</Label>
+              <RadioGroup
+                value={draft.voiceInputMode}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, voiceInputMode: value as VoiceInputMode }))
+                }
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="hands-free" id="voice-input-hands-free" />
+                  <Label htmlFor="voice-input-hands-free" className="font-normal">
+                    Hands-free
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="push-to-talk" id="voice-input-ptt" />
+                  <Label htmlFor="voice-input-ptt" className="font-normal">
+                    Push-to-talk
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {draft.voiceBackend === "browser" && (
+              <div className="flex items-center justify-between gap-4 pt-2">
+                <Label htmlFor="voice-confirm" className="font-normal leading-snug">
+                  <span className="font-medium">Confirm before sending</span>
+                  <span className="block text-muted-foreground">
+                    Review and edit what was heard before it goes to the assistant.
+                  </span>
+                </Label>
+                <Switch
+                  id="voice-confirm"
+                  checked={draft.voiceConfirmBeforeSend}
+                  onCheckedChange={(checked) =>
+                    setDraft((prev) => ({ ...prev, voiceConfirmBeforeSend: checked }))
+                  }
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <Label htmlFor="voice-barge-in" className="font-normal leading-snug">
+                <span className="font-medium">Allow interruptions</span>
+                <span className="block text-muted-foreground">
+                  {draft.voiceInputMode === "push-to-talk"
+                    ? "Pressing the talk button stops the assistant mid-reply."
+                    : "Talking over the assistant stops its reply and starts your turn."}
+                </span>
+              </Label>
+              <Switch
+                id="voice-barge-in"
+                checked={draft.bargeIn}
+                onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, bargeIn: checked }))}
+              />
+            </div>
+
+            {draft.voiceBackend === "server" && draft.voiceInputMode === "hands-free" && (
+              <div className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Microphone sensitivity</Label>
+                    <span className="text-xs text-muted-foreground">{draft.vadSensitivity}</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={[draft.vadSensitivity]}
+                    onValueChange={([value]) => setDraft((prev) => ({ ...prev, vadSensitivity: value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Raise it if quiet speech is missed, lower it if background noise triggers recording.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>End of speech after</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {(draft.vadSilenceMs / 1000).toFixed(1)} s of silence
+                    </span>
+                  </div>
+                  <Slider
+                    min={200}
+                    max={3000}
+                    step={100}
+                    value={[draft.vadSilenceMs]}
+                    onValueChange={([value]) => setDraft((prev) => ({ ...prev, vadSilenceMs: value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.voiceBackend === "server" && (
+              <div className="grid grid-cols-2 gap-3 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="voice-upload-format">Upload format</Label>
+                  <Select
+                    value={draft.voiceUploadFormat}
+                    onValueChange={(value) =>
+                      setDraft((prev) => ({ ...prev, voiceUploadFormat: value as UploadFormat }))
+                    }
+                  >
+                    <SelectTrigger id="voice-upload-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="wav">WAV (PCM)</SelectItem>
+                      <SelectItem value="compressed">Compressed (WebM/Ogg/MP4)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.voiceUploadFormat === "wav" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="voice-sample-rate">Sample rate</Label>
+                    <Select
+                      value={String(draft.voiceSampleRate)}
+                      onValueChange={(value) =>
+                        setDraft((prev) => ({ ...prev, voiceSampleRate: Number(value) }))
+                      }
+                    >
+                      <SelectTrigger id="voice-sample-rate">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SAMPLE_RATES.map((rate) => (
+                          <SelectItem key={rate} value={String(rate)}>
+                            {rate / 1000} kHz mono
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="speech">
+            <SpeechSettings
+              settings={draft}
+              onChange={(patch) => setDraft((prev) => ({ ...prev, ...patch }))}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setDraftUrl(DEFAULT_API_URL);
+              setDraft(DEFAULT_SETTINGS);
+            }}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={save} disabled={!isDraftValid} className="bg-gradient-ai shadow-ai">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
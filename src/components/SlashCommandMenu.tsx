@@ -0,0 +1,77 @@
+import { cn } from "@/lib/utils";
+import type { AppCommand } from "@/lib/commands";
+
+interface SlashCommandMenuProps {
+  suggestions: AppCommand[];
+  activeIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (command: AppCommand) => void;
+  // Command whose arguments are being typed
+  activeCommand: AppCommand | null;
+}
+
+// Suggestions for a partly typed "/" command, shown above the composer, or
+// a hint for the arguments once the name is complete
+const SlashCommandMenu = ({
+  suggestions,
+  activeIndex,
+  onHighlight,
+  onSelect,
+  activeCommand,
+}: SlashCommandMenuProps) => {
+  if (suggestions.length > 0) {
+    return (
+      <div
+        role="listbox"
+        aria-label="Commands"
+        className="absolute bottom-full left-0 right-0 mb-2 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md animate-in fade-in-0"
+      >
+        {suggestions.map((command, index) => {
+          const Icon = command.icon;
+          return (
+            <div
+              key={command.name}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => onHighlight(index)}
+              // Keep focus in the composer
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(command)}
+              className={cn(
+                "flex cursor-pointer items-center gap-3 rounded-sm px-2 py-1.5 text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="font-mono">/{command.name}</span>
+              {command.argumentHint && (
+                <span className="font-mono text-xs text-muted-foreground">
+                  {command.argumentHint}
+                </span>
+              )}
+              <span className="ml-auto truncate text-xs text-muted-foreground">
+                {command.description}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (activeCommand) {
+    return (
+      <p className="absolute bottom-full left-0 mb-2 rounded-md border bg-popover px-2 py-1 text-xs text-muted-foreground shadow-sm">
+        <span className="font-mono text-foreground">/{activeCommand.name}</span>{" "}
+        {activeCommand.argumentHint && (
+          <span className="font-mono">{activeCommand.argumentHint}</span>
+        )}{" "}
+        — {activeCommand.description}
+      </p>
+    );
+  }
+
+  return null;
+};
+
+export default SlashCommandMenu;
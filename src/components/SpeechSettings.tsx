@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useSpeechVoices } from "@/hooks/use-speech-voices";
+import type { AppSettings } from "@/lib/settings";
+import { resolveSpeechLanguage } from "@/lib/voice/languages";
+import { isSpeechSynthesisSupported, speak } from "@/lib/voice/speech-synthesis";
+
+interface SpeechSettingsProps {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+}
+
+// Radix Select can't use "" as an item value
+const AUTO_VOICE = "auto";
+const PREVIEW_TEXT = "Hi! This is how I'll sound when I read my replies aloud.";
+
+const languageName = (lang: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: "language" }).of(lang) ?? lang;
+  } catch {
+    return lang;
+  }
+};
+
+// Voice picker, rate/pitch/volume sliders and a preview, for the settings dialog
+const SpeechSettings = ({ settings, onChange }: SpeechSettingsProps) => {
+  const voices = useSpeechVoices();
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const previewRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => previewRef.current?.abort(), []);
+
+  const voiceGroups = useMemo(() => {
+    const groups = new Map<string, SpeechSynthesisVoice[]>();
+    for (const voice of voices) {
+      const label = languageName(voice.lang);
+      groups.set(label, [...(groups.get(label) ?? []), voice]);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [voices]);
+
+  const togglePreview = async () => {
+    if (previewRef.current) {
+      previewRef.current.abort();
+      return;
+    }
+
+    const preview = new AbortController();
+    previewRef.current = preview;
+    setIsPreviewing(true);
+    await speak(PREVIEW_TEXT, preview.signal, {
+      voiceURI: settings.ttsVoiceURI,
+      rate: settings.ttsRate,
+      pitch: settings.ttsPitch,
+      volume: settings.ttsVolume,
+      // Always the chosen voice, in its own language
+      lang:
+        voices.find((voice) => voice.voiceURI === settings.ttsVoiceURI)?.lang ??
+        resolveSpeechLanguage(settings.speechLanguage),
+    });
+    previewRef.current = null;
+    setIsPreviewing(false);
+  };
+
+  const sliders = [
+    { key: "ttsRate", label: "Rate", min: 0.5, max: 2, step: 0.05, format: (v: number) => `${v.toFixed(2)}×` },
+    { key: "ttsPitch", label: "Pitch", min: 0, max: 2, step: 0.1, format: (v: number) => v.toFixed(1) },
+    { key: "ttsVolume", label: "Volume", min: 0, max: 1, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+  ] as const;
+
+  if (!isSpeechSynthesisSupported()) {
+    return (
+      <p className="text-sm text-muted-foreground">Your browser can't read replies aloud.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="tts-voice">Voice</Label>
+        <div className="flex gap-2">
+          <Select
+            value={settings.ttsVoiceURI || AUTO_VOICE}
+            onValueChange={(value) => onChange({ ttsVoiceURI: value === AUTO_VOICE ? "" : value })}
+          >
+            <SelectTrigger id="tts-voice" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              <SelectItem value={AUTO_VOICE}>Automatic</SelectItem>
+              {voiceGroups.map(([language, group]) => (
+                <SelectGroup key={language}>
+                  <SelectLabel>{language}</SelectLabel>
+                  {group.map((voice) => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={togglePreview}>
+            {isPreviewing ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            {isPreviewing ? "Stop" : "Preview"}
+          </Button>
+        </div>
+        {voices.length === 0 && (
+          <p className="text-xs text-muted-foreground">Loading voices…</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="tts-match-language" className="font-normal leading-snug">
+          <span className="font-medium">Match each reply's language</span>
+          <span className="block text-muted-foreground">
+            Read replies in another language with a voice for that language instead of the one
+            chosen above.
+          </span>
+        </Label>
+        <Switch
+          id="tts-match-language"
+          checked={settings.ttsMatchLanguage}
+          onCheckedChange={(checked) => onChange({ ttsMatchLanguage: checked })}
+        />
+      </div>
+
+      {sliders.map(({ key, label, min, max, step, format }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex justify-between">
+            <Label>{label}</Label>
+            <span className="text-xs text-muted-foreground">{format(settings[key])}</span>
+          </div>
+          <Slider
+            min={min}
+            max={max}
+            step={step}
+            value={[settings[key]]}
+            onValueChange={([value]) => onChange({ [key]: value })}
+          />
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        With the server voice backend, the voice, rate and pitch are passed to /voice as a request.
+      </p>
+    </div>
+  );
+};
+
+export default SpeechSettings;
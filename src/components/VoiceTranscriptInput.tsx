@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import { Send, Square, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface VoiceTranscriptInputProps {
+  // Live recognition text, shown read-only while the user speaks
+  caption: string;
+  // Set when a finished transcript is waiting to be confirmed
+  pendingTranscript: string | null;
+  onConfirm: (text: string) => void;
+  onDiscard: () => void;
+  // A request for the last utterance is in flight and can be cancelled
+  isResponding: boolean;
+  onStop: () => void;
+}
+
+// Stands in for the text composer during voice mode
+const VoiceTranscriptInput = ({
+  caption,
+  pendingTranscript,
+  onConfirm,
+  onDiscard,
+  isResponding,
+  onStop,
+}: VoiceTranscriptInputProps) => {
+  const [draft, setDraft] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isEditing = pendingTranscript !== null;
+
+  useEffect(() => {
+    setDraft(pendingTranscript ?? "");
+    if (pendingTranscript !== null) inputRef.current?.focus();
+  }, [pendingTranscript]);
+
+  return (
+    <div className="p-6 border-t border-border/50">
+      <div className="flex gap-3">
+        <Input
+          ref={inputRef}
+          value={isEditing ? draft : caption}
+          readOnly={!isEditing}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (!isEditing) return;
+            if (e.key === "Enter") {
+              e.preventDefault();
+              onConfirm(draft);
+            }
+            if (e.key === "Escape") onDiscard();
+          }}
+          placeholder="Your words appear here as you speak..."
+          aria-label={isEditing ? "Edit transcript" : "Live transcript"}
+          className="flex-1 bg-secondary/50 border-border/50 focus:border-ai-primary transition-colors"
+        />
+        {!isEditing && isResponding && (
+          <Button onClick={onStop} variant="outline" aria-label="Stop generating">
+            <Square className="w-4 h-4" />
+          </Button>
+        )}
+        {isEditing && (
+          <>
+            <Button onClick={onDiscard} variant="outline" aria-label="Discard transcript">
+              <X className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => onConfirm(draft)}
+              disabled={!draft.trim()}
+              aria-label="Send transcript"
+              className="bg-gradient-ai shadow-ai hover:shadow-lg transition-all duration-300"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceTranscriptInput;
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getApiBaseUrl, subscribeApiBaseUrl } from "@/lib/api";
+
+export function useApiUrl() {
+  return useSyncExternalStore(subscribeApiBaseUrl, getApiBaseUrl);
+}
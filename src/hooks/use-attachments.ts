@@ -0,0 +1,56 @@
+import { useCallback, useRef, useState } from "react";
+import { AttachmentError, MAX_ATTACHMENTS, readAttachment } from "@/lib/attachments";
+import type { FileAttachment } from "@/types/chat";
+
+// Files waiting to go out with the next prompt. Each rejected file is
+// reported through onError; the rest are still added.
+export function useAttachments(onError: (message: string) => void) {
+  const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  // Mirrors `attachments` so concurrent adds agree on how much room is left
+  const attachmentsRef = useRef(attachments);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const commit = useCallback((next: FileAttachment[]) => {
+    attachmentsRef.current = next;
+    setAttachments(next);
+  }, []);
+
+  const addFiles = useCallback(
+    async (files: File[]) => {
+      const read = await Promise.all(
+        files.map((file) =>
+          readAttachment(file).catch((error) => {
+            if (!(error instanceof AttachmentError)) console.error("Could not read file:", error);
+            onErrorRef.current(
+              error instanceof AttachmentError ? error.message : `${file.name} couldn't be read.`
+            );
+            return null;
+          })
+        )
+      );
+      const accepted = read.filter((a): a is FileAttachment => a !== null);
+      const room = MAX_ATTACHMENTS - attachmentsRef.current.length;
+      if (accepted.length > room) {
+        onErrorRef.current(`You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+      }
+      if (room > 0 && accepted.length > 0) {
+        commit([...attachmentsRef.current, ...accepted.slice(0, room)]);
+      }
+    },
+    [commit]
+  );
+
+  const removeAttachment = useCallback(
+    (id: string) => {
+      commit(attachmentsRef.current.filter((a) => a.id !== id));
+    },
+    [commit]
+  );
+
+  const clearAttachments = useCallback(() => {
+    if (attachmentsRef.current.length > 0) commit([]);
+  }, [commit]);
+
+  return { attachments, addFiles, removeAttachment, clearAttachments };
+}
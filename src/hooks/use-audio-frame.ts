@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { SILENT_FRAME, readAudioFrame, type AudioChannel } from "@/lib/voice/audio-meter";
+
+// Samples a meter channel once per animation frame; null pauses sampling
+export function useAudioFrame(channel: AudioChannel | null) {
+  const [frame, setFrame] = useState(SILENT_FRAME);
+
+  useEffect(() => {
+    if (!channel) {
+      setFrame(SILENT_FRAME);
+      return;
+    }
+
+    let raf = 0;
+    const tick = () => {
+      setFrame(readAudioFrame(channel));
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [channel]);
+
+  return frame;
+}
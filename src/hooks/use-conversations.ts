@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Conversation, Message } from "@/types/chat";
+import {
+  DEFAULT_TITLE,
+  createId,
+  createConversation as createEmptyConversation,
+  deriveTitle,
+  sortConversations,
+} from "@/lib/conversation";
+import { findLatestLeaf, resolveActiveLeaf } from "@/lib/message-tree";
+import {
+  deleteConversation as deleteStoredConversation,
+  loadConversations,
+  saveConversation,
+} from "@/lib/storage";
+
+const SAVE_DELAY_MS = 400;
+// A streaming reply keeps restarting the delay; still save at least this often
+const SAVE_MAX_WAIT_MS = 2000;
+
+type MessagesUpdate = Message[] | ((messages: Message[]) => Message[]);
+
+// New messages without their place in the tree yet (see appendMessages)
+type NewMessage = Omit<Message, "parentId">;
+
+// All stored conversations plus the one currently open (chosen by the route).
+// Changes are written back to storage in the background; onSaveError hears
+// about the first failure after a successful save.
+export function useConversations(activeId?: string, onSaveError?: (error: unknown) => void) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  const dirtyIdsRef = useRef(new Set<string>());
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // When the oldest unsaved change was made
+  const dirtySinceRef = useRef<number | null>(null);
+  // Saving keeps failing the same way (e.g. storage full); report it once
+  const saveFailedRef = useRef(false);
+  const onSaveErrorRef = useRef(onSaveError);
+  onSaveErrorRef.current = onSaveError;
+
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    dirtySinceRef.current = null;
+    for (const id of dirtyIdsRef.current) {
+      const conversation = conversationsRef.current.find((c) => c.id === id);
+      if (!conversation) continue;
+      saveConversation(conversation).then(
+        () => {
+          saveFailedRef.current = false;
+        },
+        (error) => {
+          console.error("Failed to save conversation:", error);
+          if (saveFailedRef.current) return;
+          saveFailedRef.current = true;
+          onSaveErrorRef.current?.(error);
+        }
+      );
+    }
+    dirtyIdsRef.current.clear();
+  }, []);
+
+  // Debounce writes so streamed tokens don't hit storage one at a time
+  const markDirty = useCallback(
+    (id: string) => {
+      const now = Date.now();
+      dirtyIdsRef.current.add(id);
+      dirtySinceRef.current ??= now;
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      const maxWaitLeft = dirtySinceRef.current + SAVE_MAX_WAIT_MS - now;
+      saveTimerRef.current = setTimeout(flush, Math.max(0, Math.min(SAVE_DELAY_MS, maxWaitLeft)));
+    },
+    [flush]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadConversations()
+      .catch((error) => {
+        console.error("Failed to load conversations:", error);
+        return [] as Conversation[];
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        const initial = stored.length > 0 ? sortConversations(stored) : [createEmptyConversation()];
+        setConversations(initial);
+        if (stored.length === 0) markDirty(initial[0].id);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [markDirty]);
+
+  // Write out anything still pending when the app unmounts, or when the tab
+  // is hidden or closed (unmount doesn't run on a reload)
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      flush();
+    };
+  }, [flush]);
+
+  const updateConversation = useCallback(
+    (id: string, update: (conversation: Conversation) => Conversation) => {
+      setConversations((prev) => prev.map((c) => (c.id === id ? update(c) : c)));
+      markDirty(id);
+    },
+    [markDirty]
+  );
+
+  const touchMessages = useCallback(
+    (conversation: Conversation, messages: Message[], activeLeafId: string | null) => {
+      const title =
+        conversation.title === DEFAULT_TITLE
+          ? deriveTitle(messages) ?? conversation.title
+          : conversation.title;
+      return { ...conversation, messages, activeLeafId, title, updatedAt: new Date() };
+    },
+    []
+  );
+
+  // Change messages anywhere in the tree (all branches, not just the one
+  // shown). If the active leaf goes away, the view falls back to its parent.
+  const updateMessages = useCallback(
+    (id: string, update: MessagesUpdate) => {
+      updateConversation(id, (conversation) => {
+        const messages =
+          typeof update === "function" ? update(conversation.messages) : update;
+        const activeLeafId = resolveActiveLeaf(
+          conversation.messages,
+          messages,
+          conversation.activeLeafId
+        );
+        return touchMessages(conversation, messages, activeLeafId);
+      });
+    },
+    [updateConversation, touchMessages]
+  );
+
+  // Add messages as a chain after `parentId` (default: the end of the branch
+  // being shown) and switch the view to the new branch
+  const appendMessages = useCallback(
+    (id: string, newMessages: NewMessage[], parentId?: string | null) => {
+      if (newMessages.length === 0) return;
+      updateConversation(id, (conversation) => {
+        let parent = parentId !== undefined ? parentId : conversation.activeLeafId;
+        const chained = newMessages.map((message) => {
+          const linked = { ...message, parentId: parent };
+          parent = message.id;
+          return linked;
+        });
+        return touchMessages(conversation, [...conversation.messages, ...chained], parent);
+      });
+    },
+    [updateConversation, touchMessages]
+  );
+
+  // Show the branch through `messageId`, down to its newest reply
+  const selectBranch = useCallback(
+    (id: string, messageId: string) =>
+      updateConversation(id, (c) => ({
+        ...c,
+        activeLeafId: findLatestLeaf(c.messages, messageId),
+      })),
+    [updateConversation]
+  );
+
+  const createConversation = useCallback(() => {
+    const conversation = createEmptyConversation();
+    setConversations((prev) => [conversation, ...prev]);
+    markDirty(conversation.id);
+    return conversation.id;
+  }, [markDirty]);
+
+  const renameConversation = useCallback(
+    (id: string, title: string) => {
+      const trimmed = title.trim();
+      if (!trimmed) return;
+      updateConversation(id, (c) => ({ ...c, title: trimmed }));
+    },
+    [updateConversation]
+  );
+
+  const togglePinned = useCallback(
+    (id: string) => updateConversation(id, (c) => ({ ...c, pinned: !c.pinned })),
+    [updateConversation]
+  );
+
+  // Add conversations from an import. Ids already in use get a fresh one, so
+  // importing the same file twice keeps both copies rather than overwriting.
+  const importConversations = useCallback(
+    (imported: Conversation[]) => {
+      const usedIds = new Set(conversationsRef.current.map((c) => c.id));
+      let renamed = 0;
+      const added = imported.map((conversation) => {
+        if (!usedIds.has(conversation.id)) {
+          usedIds.add(conversation.id);
+          return conversation;
+        }
+        renamed += 1;
+        const id = createId();
+        usedIds.add(id);
+        return { ...conversation, id };
+      });
+
+      setConversations((prev) => [...added, ...prev]);
+      added.forEach((c) => markDirty(c.id));
+      return { added, renamed };
+    },
+    [markDirty]
+  );
+
+  // Returns the conversation to show in place of the deleted one
+  const deleteConversation = useCallback(
+    (id: string): string => {
+      dirtyIdsRef.current.delete(id);
+      deleteStoredConversation(id).catch((error) =>
+        console.error("Failed to delete conversation:", error)
+      );
+
+      const remaining = conversationsRef.current.filter((c) => c.id !== id);
+      if (remaining.length === 0) {
+        const fresh = createEmptyConversation();
+        setConversations([fresh]);
+        markDirty(fresh.id);
+        return fresh.id;
+      }
+
+      setConversations(remaining);
+      return sortConversations(remaining)[0].id;
+    },
+    [markDirty]
+  );
+
+  const sortedConversations = useMemo(
+    () => sortConversations(conversations),
+    [conversations]
+  );
+  const activeConversation = activeId
+    ? conversations.find((c) => c.id === activeId) ?? null
+    : null;
+
+  return {
+    conversations: sortedConversations,
+    activeConversation,
+    isLoaded,
+    createConversation,
+    renameConversation,
+    togglePinned,
+    deleteConversation,
+    importConversations,
+    updateMessages,
+    appendMessages,
+    selectBranch,
+  };
+}
@@ -0,0 +1,10 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getDraft, setDraft, subscribeDrafts } from "@/lib/drafts";
+
+// The composer text saved for a conversation, and a setter for it
+export function useDraft(conversationId: string | null) {
+  const key = conversationId ?? "";
+  const draft = useSyncExternalStore(subscribeDrafts, () => getDraft(key));
+  const updateDraft = useCallback((text: string) => setDraft(key, text), [key]);
+  return [draft, updateDraft] as const;
+}
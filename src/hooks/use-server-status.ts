@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { checkHealth } from "@/lib/api";
+import { useApiUrl } from "@/hooks/use-api-url";
+
+export type ServerStatus = "unknown" | "online" | "offline";
+
+const POLL_INTERVAL_MS = 30_000;
+
+// Pings the configured backend on mount, whenever the URL changes and
+// periodically after that
+export function useServerStatus() {
+  const apiUrl = useApiUrl();
+  const [status, setStatus] = useState<ServerStatus>("unknown");
+  const [isChecking, setIsChecking] = useState(false);
+  const latestCheckRef = useRef(0);
+
+  const recheck = useCallback(async () => {
+    const checkId = ++latestCheckRef.current;
+    setIsChecking(true);
+    const isOnline = await checkHealth(apiUrl);
+    // Ignore results that were overtaken by a newer check
+    if (checkId === latestCheckRef.current) {
+      setStatus(isOnline ? "online" : "offline");
+      setIsChecking(false);
+    }
+  }, [apiUrl]);
+
+  useEffect(() => {
+    setStatus("unknown");
+    recheck();
+    const interval = setInterval(recheck, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [recheck]);
+
+  return { apiUrl, status, isChecking, recheck };
+}
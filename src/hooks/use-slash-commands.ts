@@ -0,0 +1,69 @@
+import { useMemo, useState } from "react";
+import { parseSlashCommand, suggestCommands, type AppCommand } from "@/lib/commands";
+
+interface SlashCommandOptions {
+  // Replace the composer text, e.g. with a completed command name
+  onComplete: (value: string) => void;
+  // A command without arguments was picked; run it straight away
+  onRun: (command: AppCommand) => void;
+}
+
+// Autocomplete state for "/" commands typed into the composer
+export function useSlashCommands(value: string, { onComplete, onRun }: SlashCommandOptions) {
+  const suggestions = useMemo(() => suggestCommands(value), [value]);
+  const [highlight, setHighlight] = useState({ value, index: 0 });
+  // Escape hides the list until the text changes
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+
+  // Typing moves the highlight back to the first match
+  const activeIndex =
+    highlight.value === value ? Math.min(highlight.index, suggestions.length - 1) : 0;
+  const isOpen = suggestions.length > 0 && dismissedFor !== value;
+
+  // The command whose arguments are being typed, for the hint under the composer
+  const parsed = isOpen ? null : parseSlashCommand(value);
+  const activeCommand = parsed && /\s/.test(value) ? parsed.command : null;
+
+  const select = (command: AppCommand) => {
+    if (command.argumentHint) onComplete(`/${command.name} `);
+    else onRun(command);
+  };
+
+  const setActiveIndex = (index: number) => setHighlight({ value, index });
+
+  // Returns true when the key was used by the suggestion list
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!isOpen || event.nativeEvent.isComposing) return false;
+
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+        break;
+      case "Tab":
+        onComplete(`/${suggestions[activeIndex].name} `);
+        break;
+      case "Enter":
+        select(suggestions[activeIndex]);
+        break;
+      case "Escape":
+        setDismissedFor(value);
+        break;
+      default:
+        return false;
+    }
+    event.preventDefault();
+    return true;
+  };
+
+  return {
+    suggestions: isOpen ? suggestions : [],
+    activeIndex,
+    setActiveIndex,
+    activeCommand,
+    select,
+    handleKeyDown,
+  };
+}
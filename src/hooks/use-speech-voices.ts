@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getVoices, subscribeVoices } from "@/lib/voice/speech-synthesis";
+
+// The browser's TTS voices, updated once they finish loading
+export function useSpeechVoices() {
+  return useSyncExternalStore(subscribeVoices, getVoices);
+}
@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { sendVoice } from "@/lib/api";
+import { isAbortError, toApiError } from "@/lib/api-errors";
+import { meterStream } from "@/lib/voice/audio-meter";
+import { playBase64Audio } from "@/lib/voice/audio-playback";
+import { createPushToTalk } from "@/lib/voice/push-to-talk";
+import {
+  isRecordingSupported,
+  recordUntil,
+  type RecordedAudio,
+  type RecordingFormat,
+} from "@/lib/voice/recorder";
+import { captureUtterance, waitForSpeech, type VadOptions } from "@/lib/voice/vad";
+import { isMicrophoneSupported, openMicrophone } from "@/lib/voice/microphone";
+import {
+  detectTextLanguage,
+  requestedLanguage,
+  resolveSpeechLanguage,
+} from "@/lib/voice/languages";
+import {
+  SpeechRecognitionError,
+  isSpeechRecognitionSupported,
+  recognizeUtterance,
+} from "@/lib/voice/speech-recognition";
+import {
+  cancelSpeech,
+  findVoiceName,
+  isSpeechSynthesisSupported,
+  speak,
+  type SpeechPreferences,
+} from "@/lib/voice/speech-synthesis";
+import type { VoiceBackendKind, VoiceInputMode, VoicePhase } from "@/lib/voice/types";
+import type { AudioAttachment } from "@/types/chat";
+
+// /voice answers with MP3-encoded speech
+const VOICE_REPLY_MIME_TYPE = "audio/mpeg";
+
+// One exchange through the server backend's /voice endpoint
+export interface VoiceTurn {
+  userAudio: Blob;
+  transcript?: string;
+  reply?: string;
+  replyAudio?: AudioAttachment;
+}
+
+interface VoiceEngineOptions {
+  backend: VoiceBackendKind;
+  inputMode: VoiceInputMode;
+  vad: VadOptions;
+  recording: RecordingFormat;
+  speech: SpeechPreferences;
+  // Speech input locale from settings, or "auto"
+  language: string;
+  // Browser backend: hold each transcript for review instead of sending it
+  confirmBeforeSend: boolean;
+  // Stop playback as soon as the user starts talking over it
+  bargeIn: boolean;
+  // Sent to /voice so the backend can tie voice turns to the conversation
+  sessionId?: string;
+  // Browser backend: answer a recognised utterance; resolves to the text to speak
+  onUtterance: (transcript: string) => Promise<string | null>;
+  // Server backend: record a completed exchange in the transcript
+  onVoiceTurn?: (turn: VoiceTurn) => void;
+  // The reply being spoken was cut off by the user
+  onInterrupted?: () => void;
+  onError?: (message: string) => void;
+}
+
+export const isVoiceBackendSupported = (backend: VoiceBackendKind) =>
+  backend === "browser"
+    ? isSpeechRecognitionSupported()
+    : isMicrophoneSupported() && isRecordingSupported();
+
+// The single owner of the microphone and the speaker in voice mode. Each
+// session runs a listen → respond → speak loop until stop() aborts it. In
+// push-to-talk mode the loop sits in "idle" until the talk button is held.
+export function useVoiceEngine({
+  backend,
+  inputMode,
+  vad,
+  recording,
+  speech,
+  language,
+  confirmBeforeSend,
+  bargeIn,
+  sessionId,
+  onUtterance,
+  onVoiceTurn,
+  onInterrupted,
+  onError,
+}: VoiceEngineOptions) {
+  const [phase, setPhase] = useState<VoicePhase>("idle");
+  const [isActive, setIsActive] = useState(false);
+  // Live recognition text while the user is speaking (browser backend)
+  const [caption, setCaption] = useState("");
+  // Transcript awaiting confirmTranscript()/discardTranscript()
+  const [pendingTranscript, setPendingTranscript] = useState<string | null>(null);
+  const confirmRef = useRef<((text: string | null) => void) | null>(null);
+
+  const sessionRef = useRef<AbortController | null>(null);
+  // The /voice request in flight, for cancelRequest()
+  const turnRef = useRef<AbortController | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [pushToTalk] = useState(createPushToTalk);
+
+  // VAD tuning and upload format are read per segment, so changing them
+  // doesn't restart the session
+  const vadRef = useRef(vad);
+  vadRef.current = vad;
+  const recordingRef = useRef(recording);
+  recordingRef.current = recording;
+  const speechRef = useRef(speech);
+  speechRef.current = speech;
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const confirmBeforeSendRef = useRef(confirmBeforeSend);
+  confirmBeforeSendRef.current = confirmBeforeSend;
+  const bargeInRef = useRef(bargeIn);
+  bargeInRef.current = bargeIn;
+
+  // Always call the latest handlers from inside the long-running loop
+  const onUtteranceRef = useRef(onUtterance);
+  onUtteranceRef.current = onUtterance;
+  const onVoiceTurnRef = useRef(onVoiceTurn);
+  onVoiceTurnRef.current = onVoiceTurn;
+  const onInterruptedRef = useRef(onInterrupted);
+  onInterruptedRef.current = onInterrupted;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+
+  // Feed the microphone to the avatar's level meter until the session ends
+  const meterMicrophone = (stream: MediaStream, signal: AbortSignal) => {
+    streamRef.current = stream;
+    const detach = meterStream(stream, "input");
+    signal.addEventListener("abort", detach, { once: true });
+  };
+
+  // A request that ends with the session or on cancelRequest(), whichever comes first
+  const beginTurn = (signal: AbortSignal) => {
+    const turn = new AbortController();
+    const onAbort = () => turn.abort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    turnRef.current = turn;
+    return {
+      signal: turn.signal,
+      end: () => {
+        signal.removeEventListener("abort", onAbort);
+        if (turnRef.current === turn) turnRef.current = null;
+      },
+    };
+  };
+
+  // Drop the pending /voice request and go back to listening
+  const cancelRequest = useCallback(() => {
+    turnRef.current?.abort();
+  }, []);
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+  };
+
+  const stop = useCallback(() => {
+    sessionRef.current?.abort();
+    sessionRef.current = null;
+    pushToTalk.release();
+    cancelSpeech();
+    releaseMicrophone();
+    setIsActive(false);
+    setPhase("idle");
+    setCaption("");
+  }, [pushToTalk]);
+
+  const fail = useCallback(
+    (message: string) => {
+      onErrorRef.current?.(message);
+      stop();
+    },
+    [stop]
+  );
+
+  // Park a transcript until the user sends (possibly edited) or discards it;
+  // resolves to the text to send, or null
+  const waitForConfirmation = (transcript: string, signal: AbortSignal) =>
+    new Promise<string | null>((resolve) => {
+      const finish = (text: string | null) => {
+        signal.removeEventListener("abort", onAbort);
+        confirmRef.current = null;
+        setPendingTranscript(null);
+        resolve(text);
+      };
+      const onAbort = () => finish(null);
+      signal.addEventListener("abort", onAbort, { once: true });
+      confirmRef.current = finish;
+      setPendingTranscript(transcript);
+    });
+
+  const confirmTranscript = useCallback(
+    (text: string) => confirmRef.current?.(text.trim() || null),
+    []
+  );
+  const discardTranscript = useCallback(() => confirmRef.current?.(null), []);
+
+  // Play a reply while listening for the user cutting in. Resolves to
+  // whether it was interrupted, plus the talk button's release signal when
+  // the interruption was a push-to-talk press.
+  const playInterruptibly = useCallback(
+    async (play: (signal: AbortSignal) => Promise<void>, signal: AbortSignal) => {
+      const playback = new AbortController();
+      const watcher = new AbortController();
+      const stopPlayback = () => playback.abort();
+      signal.addEventListener("abort", stopPlayback, { once: true });
+
+      let interrupted = false;
+      let released: AbortSignal | null = null;
+      const interrupt = () => {
+        if (watcher.signal.aborted) return;
+        interrupted = true;
+        playback.abort();
+      };
+
+      if (bargeInRef.current) {
+        if (inputMode === "push-to-talk") {
+          pushToTalk.waitForPress(watcher.signal).then((release) => {
+            if (!release) return;
+            released = release;
+            interrupt();
+          });
+        } else if (streamRef.current) {
+          waitForSpeech(streamRef.current, vadRef.current, watcher.signal).then(
+            (heard) => heard && interrupt()
+          );
+        }
+      }
+
+      try {
+        await play(playback.signal);
+      } finally {
+        watcher.abort();
+        signal.removeEventListener("abort", stopPlayback);
+      }
+
+      if (interrupted && !signal.aborted) onInterruptedRef.current?.();
+      return { interrupted: interrupted && !signal.aborted, released };
+    },
+    [inputMode, pushToTalk]
+  );
+
+  const runBrowserLoop = useCallback(
+    async (signal: AbortSignal) => {
+      // Recognition owns its own capture; this stream only animates the
+      // avatar and detects barge-in, so failing to get it isn't fatal
+      if (isMicrophoneSupported()) {
+        openMicrophone()
+          .then((stream) => {
+            if (signal.aborted) stream.getTracks().forEach((t) => t.stop());
+            else meterMicrophone(stream, signal);
+          })
+          .catch(() => undefined);
+      }
+
+      // Set when the talk button interrupted playback: that press starts the next turn
+      let pendingRelease: AbortSignal | null = null;
+
+      while (!signal.aborted) {
+        let stopSignal: AbortSignal | undefined;
+        if (inputMode === "push-to-talk") {
+          setPhase("idle");
+          const released = pendingRelease ?? (await pushToTalk.waitForPress(signal));
+          pendingRelease = null;
+          if (!released) return;
+          stopSignal = released;
+        }
+
+        setPhase("listening");
+        let transcript: string;
+        try {
+          transcript = await recognizeUtterance(signal, {
+            stopSignal,
+            lang: resolveSpeechLanguage(languageRef.current),
+            onInterim: setCaption,
+          });
+        } catch (error) {
+          if (signal.aborted) return;
+          setCaption("");
+          if (error instanceof SpeechRecognitionError && !error.isFatal) continue;
+          fail(error instanceof Error ? error.message : "Speech recognition failed");
+          return;
+        }
+        setCaption("");
+        if (signal.aborted) return;
+        if (!transcript) continue;
+
+        if (confirmBeforeSendRef.current) {
+          setPhase("confirming");
+          const confirmed = await waitForConfirmation(transcript, signal);
+          if (signal.aborted) return;
+          if (!confirmed) continue;
+          transcript = confirmed;
+        }
+
+        setPhase("thinking");
+        const reply = await onUtteranceRef.current(transcript);
+        if (signal.aborted) return;
+
+        if (reply) {
+          setPhase("speaking");
+          const { released } = await playInterruptibly(
+            (s) =>
+              speak(reply, s, {
+                ...speechRef.current,
+                // Follow the reply if it's clearly in another language
+                lang: detectTextLanguage(reply, resolveSpeechLanguage(languageRef.current)),
+              }),
+            signal
+          );
+          pendingRelease = released;
+        }
+      }
+    },
+    [fail, inputMode, playInterruptibly, pushToTalk]
+  );
+
+  const runServerLoop = useCallback(
+    async (signal: AbortSignal) => {
+      let stream: MediaStream;
+      try {
+        stream = await openMicrophone();
+      } catch (error) {
+        console.error("Error accessing mic:", error);
+        if (!signal.aborted) fail("Microphone access was denied");
+        return;
+      }
+      if (signal.aborted) {
+        stream.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      meterMicrophone(stream, signal);
+
+      let pendingRelease: AbortSignal | null = null;
+
+      while (!signal.aborted) {
+        let clip: RecordedAudio | null;
+        if (inputMode === "push-to-talk") {
+          setPhase("idle");
+          const released = pendingRelease ?? (await pushToTalk.waitForPress(signal));
+          pendingRelease = null;
+          if (!released) return;
+          setPhase("listening");
+          clip = await recordUntil(stream, released, recordingRef.current);
+        } else {
+          setPhase("listening");
+          clip = await captureUtterance(stream, vadRef.current, recordingRef.current, signal);
+        }
+        if (signal.aborted || !clip) return;
+
+        setPhase("transcribing");
+        const turn = beginTurn(signal);
+        try {
+          const { voiceURI, rate, pitch } = speechRef.current;
+          const data = await sendVoice(clip.blob, clip.filename, {
+            signal: turn.signal,
+            sessionId: sessionIdRef.current,
+            language: requestedLanguage(languageRef.current),
+            // The chosen browser voice's name doubles as a hint for the server's TTS
+            voice: isSpeechSynthesisSupported() ? findVoiceName(voiceURI) : undefined,
+            rate,
+            pitch,
+          });
+          turn.end();
+          if (signal.aborted) return;
+          // Cancelled as the answer arrived; it's dropped like any other
+          if (turn.signal.aborted) continue;
+
+          const replyAudio = data.audio_base64
+            ? { data: data.audio_base64, mimeType: VOICE_REPLY_MIME_TYPE }
+            : undefined;
+          onVoiceTurnRef.current?.({
+            userAudio: clip.blob,
+            transcript: data.transcript,
+            reply: data.assistant,
+            replyAudio,
+          });
+
+          if (replyAudio) {
+            setPhase("speaking");
+            const { released } = await playInterruptibly(
+              (s) =>
+                playBase64Audio(replyAudio.data, s, replyAudio.mimeType, speechRef.current.volume),
+              signal
+            );
+            pendingRelease = released;
+          }
+        } catch (error) {
+          // Cancelled while waiting: skip this turn and listen again
+          if (turn.signal.aborted && !signal.aborted) continue;
+          if (signal.aborted || isAbortError(error)) return;
+          console.error("Voice API error:", error);
+          fail(toApiError(error).message);
+          return;
+        } finally {
+          turn.end();
+        }
+      }
+    },
+    [fail, inputMode, playInterruptibly, pushToTalk]
+  );
+
+  // Returns false if voice mode couldn't start on this browser
+  const start = useCallback(() => {
+    if (sessionRef.current) return true;
+    if (!isVoiceBackendSupported(backend)) {
+      onErrorRef.current?.(
+        backend === "browser"
+          ? "Your browser doesn't support voice recognition. Try the server voice backend in Settings."
+          : "Your browser doesn't support audio recording"
+      );
+      return false;
+    }
+
+    const session = new AbortController();
+    sessionRef.current = session;
+    setIsActive(true);
+
+    const run = backend === "browser" ? runBrowserLoop : runServerLoop;
+    run(session.signal).catch((error) => {
+      console.error("Voice engine error:", error);
+      if (!session.signal.aborted) fail("Voice mode stopped unexpectedly");
+    });
+    return true;
+  }, [backend, runBrowserLoop, runServerLoop, fail]);
+
+  // Switching backend or input mode mid-session restarts the loop
+  const modeRef = useRef(`${backend}/${inputMode}`);
+  useEffect(() => {
+    const mode = `${backend}/${inputMode}`;
+    if (modeRef.current === mode) return;
+    modeRef.current = mode;
+    if (sessionRef.current) {
+      stop();
+      start();
+    }
+  }, [backend, inputMode, start, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return {
+    phase,
+    isActive,
+    start,
+    stop,
+    cancelRequest,
+    caption,
+    pendingTranscript,
+    confirmTranscript,
+    discardTranscript,
+    pressToTalk: pushToTalk.press,
+    releaseToTalk: pushToTalk.release,
+  };
+}
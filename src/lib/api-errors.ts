@@ -0,0 +1,67 @@
+import { ZodError } from "zod";
+
+// "invalid" is a request we refused to send; the rest come from the round trip
+export type ApiErrorKind = "network" | "timeout" | "http" | "malformed" | "aborted" | "invalid";
+
+// Every failure from the API client is normalised into an ApiError so the
+// UI can tell "server down" from "server said no" from "server said nonsense"
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, options?: { status?: number; cause?: unknown }) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options?.status;
+    this.cause = options?.cause;
+  }
+
+  // Client errors won't succeed on a second attempt; everything else might
+  get isRetryable() {
+    if (this.kind === "aborted" || this.kind === "invalid") return false;
+    if (this.kind === "http" && this.status !== undefined) {
+      return this.status >= 500 || this.status === 408 || this.status === 429;
+    }
+    return true;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export const isAbortError = (error: unknown) => isApiError(error) && error.kind === "aborted";
+
+interface NormalizeContext {
+  aborted?: boolean;
+  timedOut?: boolean;
+}
+
+export const toApiError = (error: unknown, { aborted, timedOut }: NormalizeContext = {}): ApiError => {
+  if (isApiError(error)) return error;
+  if (timedOut) return new ApiError("timeout", "The server took too long to respond.", { cause: error });
+  if (aborted) return new ApiError("aborted", "Request was cancelled.", { cause: error });
+  if (error instanceof ZodError || error instanceof SyntaxError) {
+    return new ApiError("malformed", "The server sent a response we couldn't understand.", {
+      cause: error,
+    });
+  }
+  return new ApiError("network", "Couldn't connect to the server.", { cause: error });
+};
+
+// FastAPI reports errors as { detail: string | ValidationError[] }
+export const httpErrorFromResponse = async (res: Response): Promise<ApiError> => {
+  let detail = "";
+  try {
+    const body = await res.json();
+    if (typeof body?.detail === "string") detail = body.detail;
+    else if (Array.isArray(body?.detail)) detail = body.detail.map((d: { msg?: string }) => d.msg).join("; ");
+  } catch {
+    // Not JSON; fall back to the status text
+  }
+
+  const kind = res.status >= 500 ? "Server error" : "Request rejected";
+  return new ApiError("http", `${kind} (${res.status}): ${detail || res.statusText || "no details"}`, {
+    status: res.status,
+  });
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Request/response contracts for the FastAPI backend
+
+export const ChatTurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+});
+
+export const ChatRequestSchema = z
+  .object({
+    message: z.string(),
+    // Earlier turns, oldest first, not including `message`
+    history: z.array(ChatTurnSchema).optional(),
+    // Stable per conversation so the backend can key any state it keeps
+    session_id: z.string().optional(),
+    // BCP 47 locale, e.g. "fr-FR"; absent when the user hasn't picked one
+    language: z.string().optional(),
+    // Instructions prepended by the backend and the model to answer with;
+    // absent to use the server's defaults
+    system_prompt: z.string().optional(),
+    model: z.string().optional(),
+    // Names of the files uploaded with the request, in order (see streamChatReply)
+    attachments: z.array(z.string()).optional(),
+    stream: z.boolean().optional(),
+  })
+  // A prompt can be just files
+  .refine((request) => request.message.trim() !== "" || !!request.attachments?.length, {
+    message: "A message or an attachment is required",
+  });
+
+export const ChatResponseSchema = z.object({
+  assistant: z.string(),
+});
+
+export const VoiceResponseSchema = z
+  .object({
+    audio_base64: z.string().optional(),
+    // What the backend heard, and what it answered, as text
+    transcript: z.string().optional(),
+    assistant: z.string().optional(),
+  })
+  .passthrough();
+
+export type ChatTurn = z.infer<typeof ChatTurnSchema>;
+export type ChatRequest = z.infer<typeof ChatRequestSchema>;
+export type ChatResponse = z.infer<typeof ChatResponseSchema>;
+export type VoiceResponse = z.infer<typeof VoiceResponseSchema>;
@@ -0,0 +1,253 @@
+import { readChatStream } from "@/lib/chat-stream";
+import { ApiError, httpErrorFromResponse, toApiError } from "@/lib/api-errors";
+import {
+  ChatRequestSchema,
+  VoiceResponseSchema,
+  type ChatTurn,
+  type VoiceResponse,
+} from "@/lib/api-schemas";
+import { base64ToBlob } from "@/lib/voice/base64";
+import type { FileAttachment } from "@/types/chat";
+
+// Client for the FastAPI backend. The base URL comes from VITE_API_URL at
+// build time and can be overridden at runtime from the settings panel.
+
+const API_URL_STORAGE_KEY = "chat-and-chime:api-url";
+const HEALTH_TIMEOUT_MS = 5000;
+// Maximum silence before a request is treated as timed out
+const CHAT_TIMEOUT_MS = 60_000;
+const VOICE_TIMEOUT_MS = 60_000;
+
+export const normalizeApiUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+export const DEFAULT_API_URL = normalizeApiUrl(
+  import.meta.env.VITE_API_URL || "http://127.0.0.1:8000"
+);
+
+export type { ChatTurn, VoiceResponse } from "@/lib/api-schemas";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface ChatReplyOptions extends RequestOptions {
+  onDelta: (delta: string) => void;
+  history?: ChatTurn[];
+  sessionId?: string;
+  // BCP 47 locale the user is speaking/typing in
+  language?: string;
+  systemPrompt?: string;
+  model?: string;
+  attachments?: FileAttachment[];
+}
+
+const readOverride = (): string | null => {
+  try {
+    return localStorage.getItem(API_URL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+let apiBaseUrl = normalizeApiUrl(readOverride() || DEFAULT_API_URL);
+const listeners = new Set<() => void>();
+
+export const getApiBaseUrl = () => apiBaseUrl;
+
+export const subscribeApiBaseUrl = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Pass null (or the default) to go back to the build-time URL
+export const setApiBaseUrl = (url: string | null) => {
+  const next = normalizeApiUrl(url || DEFAULT_API_URL);
+  try {
+    if (next === DEFAULT_API_URL) localStorage.removeItem(API_URL_STORAGE_KEY);
+    else localStorage.setItem(API_URL_STORAGE_KEY, next);
+  } catch (error) {
+    console.warn("Could not persist API URL override:", error);
+  }
+
+  apiBaseUrl = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const isValidApiUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url.trim());
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const endpoint = (path: string) => `${apiBaseUrl}${path}`;
+
+// Any HTTP answer (even a 404 from a backend without /health) means the
+// server is reachable; only network failures and timeouts count as down
+export const checkHealth = async (baseUrl: string = apiBaseUrl): Promise<boolean> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  try {
+    await fetch(`${normalizeApiUrl(baseUrl)}/health`, { signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Aborts when the caller cancels or when the request goes quiet for longer
+// than timeoutMs; touch() restarts the clock whenever data arrives
+const createRequestSignal = (callerSignal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onCallerAbort = () => controller.abort();
+  if (callerSignal?.aborted) controller.abort();
+  callerSignal?.addEventListener("abort", onCallerAbort);
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    isTimedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    },
+  };
+};
+
+// Runs a request and normalises every failure into an ApiError
+const send = async <T>(
+  path: string,
+  init: RequestInit,
+  { signal, timeoutMs }: RequestOptions & { timeoutMs: number },
+  read: (res: Response, touch: () => void) => Promise<T>
+): Promise<T> => {
+  const request = createRequestSignal(signal, timeoutMs);
+  try {
+    const res = await fetch(endpoint(path), { ...init, signal: request.signal });
+    if (!res.ok) throw await httpErrorFromResponse(res);
+    request.touch();
+    return await read(res, request.touch);
+  } catch (error) {
+    throw toApiError(error, { aborted: signal?.aborted, timedOut: request.isTimedOut() });
+  } finally {
+    request.dispose();
+  }
+};
+
+export const streamChatReply = (
+  message: string,
+  {
+    onDelta,
+    history,
+    sessionId,
+    language,
+    systemPrompt,
+    model,
+    attachments,
+    signal,
+    timeoutMs = CHAT_TIMEOUT_MS,
+  }: ChatReplyOptions
+): Promise<string> => {
+  // Checked before anything is sent so a bad request isn't reported as a
+  // bad response (and offered a retry that can't succeed)
+  const parsed = ChatRequestSchema.safeParse({
+    message,
+    history,
+    session_id: sessionId,
+    language,
+    system_prompt: systemPrompt || undefined,
+    model: model || undefined,
+    attachments: attachments?.length ? attachments.map((a) => a.name) : undefined,
+    stream: true,
+  });
+  if (!parsed.success) {
+    const reason = parsed.error.issues[0]?.message ?? "Invalid request";
+    return Promise.reject(
+      new ApiError("invalid", `Couldn't send this message. ${reason}.`, { cause: parsed.error })
+    );
+  }
+  const body = parsed.data;
+
+  // With files, the same request goes as multipart: the JSON body in a
+  // "request" field followed by one "files" part per attachment
+  const headers: Record<string, string> = { Accept: "text/event-stream, application/json" };
+  let payload: BodyInit;
+  if (attachments?.length) {
+    const formData = new FormData();
+    formData.append("request", JSON.stringify(body));
+    for (const attachment of attachments) {
+      formData.append("files", base64ToBlob(attachment.data, attachment.mimeType), attachment.name);
+    }
+    payload = formData;
+  } else {
+    headers["Content-Type"] = "application/json";
+    payload = JSON.stringify(body);
+  }
+
+  return send(
+    "/chat",
+    { method: "POST", headers, body: payload },
+    { signal, timeoutMs },
+    async (res, touch) => {
+      const reply = await readChatStream(res, { onDelta, onChunk: touch });
+      // Nothing to show or to send back as history; worth another try
+      if (!reply.trim()) throw new ApiError("malformed", "The server sent an empty reply.");
+      return reply;
+    }
+  );
+};
+
+export interface VoiceOptions extends RequestOptions {
+  sessionId?: string;
+  // Spoken locale; omitted to let the backend detect it
+  language?: string;
+  // Requested TTS voice for the reply; the backend may ignore these
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+}
+
+export const sendVoice = (
+  audio: Blob,
+  filename: string,
+  {
+    sessionId,
+    language,
+    voice,
+    rate,
+    pitch,
+    signal,
+    timeoutMs = VOICE_TIMEOUT_MS,
+  }: VoiceOptions = {}
+): Promise<VoiceResponse> => {
+  const formData = new FormData();
+  formData.append("file", audio, filename);
+  if (sessionId) formData.append("session_id", sessionId);
+  if (language) formData.append("language", language);
+  if (voice) formData.append("voice", voice);
+  if (rate !== undefined) formData.append("rate", String(rate));
+  if (pitch !== undefined) formData.append("pitch", String(pitch));
+
+  return send("/voice", { method: "POST", body: formData }, { signal, timeoutMs }, async (res) =>
+    VoiceResponseSchema.parse(await res.json())
+  );
+};
@@ -0,0 +1,79 @@
+import type { FileAttachment } from "@/types/chat";
+import { createId } from "@/lib/conversation";
+import { blobToBase64 } from "@/lib/voice/base64";
+
+// Files attached to a prompt are kept (base64) with the conversation so they
+// survive reloads and exports, which is why the limits are modest. Storage
+// saves them once, apart from the conversation record (see lib/storage).
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+
+const ACCEPTED_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/json",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "text/html",
+];
+
+// Browsers leave the type blank for many text formats
+const ACCEPTED_EXTENSIONS = [".txt", ".md", ".markdown", ".csv", ".json", ".log"];
+
+// For the file picker's `accept` attribute
+export const ACCEPT_ATTRIBUTE = [...ACCEPTED_MIME_TYPES, ...ACCEPTED_EXTENSIONS].join(",");
+
+// Thrown for files we won't send; the message is shown to the user
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const isImageAttachment = (attachment: Pick<FileAttachment, "mimeType">) =>
+  attachment.mimeType.startsWith("image/");
+
+// data: URL for previews and downloads
+export const attachmentUrl = ({ mimeType, data }: FileAttachment) =>
+  `data:${mimeType};base64,${data}`;
+
+const isAccepted = (file: File) =>
+  ACCEPTED_MIME_TYPES.includes(file.type) ||
+  ACCEPTED_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+export const validateFile = (file: File) => {
+  if (!isAccepted(file)) {
+    throw new AttachmentError(`${file.name} isn't a supported file type.`);
+  }
+  if (file.size === 0) {
+    throw new AttachmentError(`${file.name} is empty.`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(
+      `${file.name} is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_ATTACHMENT_BYTES)}.`
+    );
+  }
+};
+
+export const readAttachment = async (file: File): Promise<FileAttachment> => {
+  validateFile(file);
+  return {
+    id: createId(),
+    name: file.name || "attachment",
+    mimeType: file.type || "text/plain",
+    size: file.size,
+    data: await blobToBase64(file),
+  };
+};
@@ -0,0 +1,40 @@
+import type { ChatTurn } from "@/lib/api-schemas";
+import type { Message } from "@/types/chat";
+
+export interface HistoryBudget {
+  maxTurns: number;
+  maxChars: number;
+}
+
+// The most recent messages that fit the budget, oldest first. Failed and
+// still-streaming replies are left out since the backend never produced them.
+export const buildHistory = (messages: Message[], { maxTurns, maxChars }: HistoryBudget): ChatTurn[] => {
+  const history: ChatTurn[] = [];
+  let chars = 0;
+
+  for (let i = messages.length - 1; i >= 0 && history.length < maxTurns; i--) {
+    const message = messages[i];
+    if (message.error || message.isStreaming || !message.content.trim()) continue;
+
+    chars += message.content.length;
+    if (chars > maxChars) break;
+
+    history.push({
+      role: message.isUser ? "user" : "assistant",
+      content: message.content,
+    });
+  }
+
+  return history.reverse();
+};
+
+// Index of the user message a reply at `replyIndex` answers, or -1
+export const findPromptIndex = (messages: Message[], replyIndex: number) => {
+  for (let i = replyIndex - 1; i >= 0; i--) {
+    if (messages[i].isUser) return i;
+  }
+  return -1;
+};
+
+// Rough token count at ~4 characters per token; close enough for a counter
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
@@ -0,0 +1,113 @@
+import { ChatResponseSchema } from "@/lib/api-schemas";
+
+// Reader for /chat response bodies.
+// The backend may answer with Server-Sent Events, a chunked text body or the
+// original non-streaming `{ assistant: string }` JSON payload; all three are
+// surfaced to the caller as a sequence of text deltas.
+
+export interface ChatStreamHandlers {
+  onDelta: (delta: string) => void;
+  // Called whenever bytes arrive, e.g. to push back an idle timeout
+  onChunk?: () => void;
+}
+
+const SSE_DONE = "[DONE]";
+
+// Fields a JSON event may carry its text in, in order of preference
+const TEXT_FIELDS = ["token", "delta", "content", "assistant"];
+
+// Pull the text out of a single SSE `data:` payload. Unparseable data is
+// plain text; JSON only counts as a string or an object with a text field,
+// so `null` or `42` don't end up in the reply.
+const parseSseData = (data: string): string => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return data;
+  }
+  if (typeof parsed === "string") return parsed;
+  if (typeof parsed !== "object" || parsed === null) return "";
+  const fields = parsed as Record<string, unknown>;
+  return (
+    TEXT_FIELDS.map((field) => fields[field]).find(
+      (value): value is string => typeof value === "string"
+    ) ?? ""
+  );
+};
+
+export const readChatStream = async (
+  res: Response,
+  { onDelta, onChunk }: ChatStreamHandlers
+): Promise<string> => {
+  const contentType = res.headers.get("content-type") ?? "";
+
+  // Backend doesn't stream: fall back to the plain JSON contract
+  if (contentType.includes("application/json") || !res.body) {
+    const { assistant } = ChatResponseSchema.parse(await res.json());
+    onDelta(assistant);
+    return assistant;
+  }
+
+  const isSse = contentType.includes("text/event-stream");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let fullText = "";
+
+  const emit = (delta: string) => {
+    if (!delta) return;
+    fullText += delta;
+    onDelta(delta);
+  };
+
+  // Returns true once the server signals the end of the stream
+  const flushSseEvents = (final: boolean): boolean => {
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = final ? "" : events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+
+      if (!data) continue;
+      if (data === SSE_DONE) return true;
+      emit(parseSseData(data));
+    }
+    return false;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk?.();
+
+      const chunk = decoder.decode(value, { stream: true });
+      if (!isSse) {
+        emit(chunk);
+        continue;
+      }
+
+      buffer += chunk;
+      if (flushSseEvents(false)) {
+        await reader.cancel();
+        return fullText;
+      }
+    }
+
+    if (isSse) {
+      buffer += decoder.decode();
+      flushSseEvents(true);
+    } else {
+      emit(decoder.decode());
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return fullText;
+};
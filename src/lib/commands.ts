@@ -0,0 +1,199 @@
+import {
+  Cpu,
+  Download,
+  Eraser,
+  Mic,
+  MessageSquarePlus,
+  ScrollText,
+  Search,
+  Settings,
+  type LucideIcon,
+} from "lucide-react";
+import type { ExportKind } from "@/lib/conversation-transfer";
+import {
+  MODEL_MAX_LENGTH,
+  SYSTEM_PROMPT_MAX_LENGTH,
+  getSettings,
+  updateSettings,
+} from "@/lib/settings";
+
+// App actions shared by the command palette and "/" commands in the composer.
+// Add a command to COMMANDS and it shows up in both.
+
+// What commands can do to the chat; supplied by ChatInterface
+export interface CommandContext {
+  newConversation: () => void;
+  clearConversation: () => void;
+  toggleVoiceMode: () => void;
+  exportConversation: (kind: ExportKind) => void;
+  openSearch: () => void;
+  openSettings: () => void;
+  notify: (title: string, description?: string) => void;
+}
+
+export interface AppCommand {
+  // Typed after "/"
+  name: string;
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  // Shown after the name while typing, e.g. "<prompt>". Picking a command
+  // that takes arguments from the palette starts it in the composer instead.
+  argumentHint?: string;
+  run: (context: CommandContext, args: string) => void;
+}
+
+// Thrown by a command for bad arguments; the message is shown to the user
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+const EXPORT_KINDS: Record<string, ExportKind> = {
+  markdown: "markdown",
+  md: "markdown",
+  text: "text",
+  txt: "text",
+  json: "json",
+};
+
+export const COMMANDS: AppCommand[] = [
+  {
+    name: "new",
+    title: "New conversation",
+    description: "Start a fresh conversation",
+    icon: MessageSquarePlus,
+    run: (context) => context.newConversation(),
+  },
+  {
+    name: "clear",
+    title: "Clear conversation",
+    description: "Remove every message from this conversation",
+    icon: Eraser,
+    run: (context) => context.clearConversation(),
+  },
+  {
+    name: "voice",
+    title: "Toggle voice mode",
+    description: "Talk to the assistant instead of typing",
+    icon: Mic,
+    run: (context) => context.toggleVoiceMode(),
+  },
+  {
+    name: "export",
+    title: "Export conversation",
+    description: "Download this conversation as Markdown, text or JSON",
+    icon: Download,
+    argumentHint: "[markdown|text|json]",
+    run: (context, args) => {
+      const kind = EXPORT_KINDS[(args || "markdown").toLowerCase()];
+      if (!kind) throw new CommandError(`Unknown format "${args}". Use markdown, text or json.`);
+      context.exportConversation(kind);
+    },
+  },
+  {
+    name: "system",
+    title: "Set system prompt",
+    description: "Instructions sent with every message; leave empty to reset",
+    icon: ScrollText,
+    argumentHint: "<prompt>",
+    run: (context, args) => {
+      // Refused rather than saved; see the limits in lib/settings
+      if (args.length > SYSTEM_PROMPT_MAX_LENGTH) {
+        throw new CommandError(
+          `The system prompt is limited to ${SYSTEM_PROMPT_MAX_LENGTH.toLocaleString()} characters.`
+        );
+      }
+      updateSettings({ systemPrompt: args });
+      context.notify(args ? "System prompt set" : "System prompt reset", args || undefined);
+    },
+  },
+  {
+    name: "model",
+    title: "Choose model",
+    description: "Model the server should answer with; leave empty for its default",
+    icon: Cpu,
+    argumentHint: "<name>",
+    run: (context, args) => {
+      if (args.length > MODEL_MAX_LENGTH) {
+        throw new CommandError(`Model names are limited to ${MODEL_MAX_LENGTH} characters.`);
+      }
+      const previous = getSettings().model;
+      updateSettings({ model: args });
+      context.notify(
+        args ? `Model set to ${args}` : "Using the server's default model",
+        previous ? `Was ${previous}` : undefined
+      );
+    },
+  },
+  {
+    name: "search",
+    title: "Search conversations",
+    description: "Find messages across every conversation",
+    icon: Search,
+    run: (context) => context.openSearch(),
+  },
+  {
+    name: "settings",
+    title: "Open settings",
+    description: "Server, conversation, voice and speech options",
+    icon: Settings,
+    run: (context) => context.openSettings(),
+  },
+];
+
+export const findCommand = (name: string) =>
+  COMMANDS.find((command) => command.name === name.toLowerCase());
+
+// Levenshtein distance, for spotting typos in command names
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The command an unknown name was probably meant as ("/modle", "/sys"), if
+// any. Only near misses count, so "/usr is a directory?" is sent as a message.
+export const findSimilarCommand = (name: string) => {
+  const lower = name.toLowerCase();
+  const maxDistance = lower.length > 4 ? 2 : 1;
+  return COMMANDS.find(
+    (command) =>
+      (lower.length >= 3 && command.name.startsWith(lower)) ||
+      editDistance(command.name, lower) <= maxDistance
+  );
+};
+
+// "//text" sends "/text" as a message instead of running a command
+export const unescapeSlash = (input: string) => input.replace(/^(\s*)\/\//, "$1/");
+
+export interface SlashCommand {
+  name: string;
+  // null when nothing is registered under `name`
+  command: AppCommand | null;
+  args: string;
+}
+
+// "/model gpt-4o" -> model with args "gpt-4o"; null when the text isn't a command
+export const parseSlashCommand = (input: string): SlashCommand | null => {
+  const match = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i.exec(input.trim());
+  if (!match) return null;
+  return { name: match[1], command: findCommand(match[1]) ?? null, args: (match[2] ?? "").trim() };
+};
+
+// Commands matching a partly typed name ("/mo"); empty once arguments start
+export const suggestCommands = (input: string): AppCommand[] => {
+  const match = /^\/([\w-]*)$/.exec(input);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return COMMANDS.filter((command) => command.name.startsWith(prefix));
+};
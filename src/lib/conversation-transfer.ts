@@ -0,0 +1,159 @@
+import { z } from "zod";
+import type { Conversation, Message } from "@/types/chat";
+import { markdownToPlainText } from "@/lib/markdown";
+import { getThread } from "@/lib/message-tree";
+import {
+  SCHEMA_VERSION,
+  deserializeConversation,
+  serializeConversation,
+} from "@/lib/storage/schema";
+
+// Moving conversations in and out of the app. JSON exports are lossless
+// (every branch, audio and timestamp) and can be imported again; Markdown and
+// plain text cover the branch being shown, for reading and sharing.
+
+const EXPORT_FORMAT = "chat-and-chime";
+
+export type ExportKind = "json" | "markdown" | "text";
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const ExportFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  // Schema version of the conversations inside; older ones are migrated
+  version: z.number().int(),
+  exportedAt: z.string().optional(),
+  conversations: z.array(z.unknown()),
+});
+
+// Minimum for a bare record to count as a conversation rather than any JSON
+// object that happens to have an id
+const BareConversationSchema = z.object({
+  id: z.string(),
+  messages: z.array(z.unknown()),
+});
+
+const isBareConversation = (record: unknown) => BareConversationSchema.safeParse(record).success;
+
+export const exportConversationsJson = (conversations: Conversation[]) =>
+  JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversations: conversations.map(serializeConversation),
+    },
+    null,
+    2
+  );
+
+const speaker = (message: Message) => (message.isUser ? "You" : "Assistant");
+
+// Attachments are listed by name; their contents only travel in JSON exports
+const attachmentNames = (message: Message) =>
+  message.attachments?.map((a) => a.name).join(", ") ?? "";
+
+const isExportable = (message: Message) =>
+  !message.error && (message.content.trim() !== "" || !!message.attachments?.length);
+
+const formatTime = (date: Date) =>
+  date.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+export const exportConversationMarkdown = (conversation: Conversation) => {
+  const lines = [`# ${conversation.title}`, "", `_Exported ${formatTime(new Date())}_`];
+  for (const message of getThread(conversation)) {
+    if (!isExportable(message)) continue;
+    lines.push("", `**${speaker(message)}** · ${formatTime(message.timestamp)}`);
+    if (message.content.trim()) lines.push("", message.content.trim());
+    if (message.attachments?.length) lines.push("", `_Attached: ${attachmentNames(message)}_`);
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+export const exportConversationText = (conversation: Conversation) => {
+  const lines = [conversation.title, "=".repeat(conversation.title.length)];
+  for (const message of getThread(conversation)) {
+    if (!isExportable(message)) continue;
+    const content = message.isUser ? message.content.trim() : markdownToPlainText(message.content);
+    lines.push("", `[${formatTime(message.timestamp)}] ${speaker(message)}:`);
+    if (content) lines.push(content);
+    if (message.attachments?.length) lines.push(`(attached: ${attachmentNames(message)})`);
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+// Accepts our export file, or a bare conversation / array of them as stored
+export const parseConversationsJson = (text: string): Conversation[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("The file isn't valid JSON.");
+  }
+
+  let records: unknown[];
+  const file = ExportFileSchema.safeParse(data);
+  if (file.success) {
+    if (file.data.version > SCHEMA_VERSION) {
+      throw new ImportError("The file was exported by a newer version of the app.");
+    }
+    records = file.data.conversations;
+  } else {
+    records = Array.isArray(data) ? data : [data];
+    if (records.length === 0 || !records.every(isBareConversation)) {
+      throw new ImportError("The file isn't a conversation export.");
+    }
+  }
+
+  const conversations = records
+    .map(deserializeConversation)
+    .filter((c): c is Conversation => c !== null);
+  if (conversations.length === 0) {
+    throw new ImportError("No conversations were found in the file.");
+  }
+  return conversations;
+};
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40) || "chat";
+
+export const exportFilename = (name: string, kind: ExportKind) => {
+  const extension = kind === "json" ? "json" : kind === "markdown" ? "md" : "txt";
+  return `${slugify(name)}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const MIME_TYPES: Record<ExportKind, string> = {
+  json: "application/json",
+  markdown: "text/markdown",
+  text: "text/plain",
+};
+
+export const downloadFile = (filename: string, content: string, kind: ExportKind) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${MIME_TYPES[kind]};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Download the open conversation: Markdown and text hold the shown branch, JSON all of them
+export const downloadConversation = (conversation: Conversation, kind: ExportKind) => {
+  const content =
+    kind === "json"
+      ? exportConversationsJson([conversation])
+      : kind === "markdown"
+        ? exportConversationMarkdown(conversation)
+        : exportConversationText(conversation);
+  downloadFile(exportFilename(conversation.title, kind), content, kind);
+};
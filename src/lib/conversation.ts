@@ -0,0 +1,51 @@
+import type { Conversation, Message } from "@/types/chat";
+
+export const DEFAULT_TITLE = "New chat";
+
+export const GREETING = "Hello! I'm your AI assistant. How can I help you today?";
+
+const MAX_TITLE_LENGTH = 40;
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createGreeting = (): Message => ({
+  id: createId(),
+  parentId: null,
+  content: GREETING,
+  isUser: false,
+  timestamp: new Date(),
+});
+
+export const createConversation = (id: string = createId()): Conversation => {
+  const now = new Date();
+  const greeting = createGreeting();
+  return {
+    id,
+    title: DEFAULT_TITLE,
+    pinned: false,
+    messages: [greeting],
+    activeLeafId: greeting.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Title a conversation after its first user message
+export const deriveTitle = (messages: Message[]): string | null => {
+  const firstPrompt = messages.find((m) => m.isUser)?.content.trim();
+  if (!firstPrompt) return null;
+
+  const singleLine = firstPrompt.replace(/\s+/g, " ");
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : singleLine;
+};
+
+// Pinned first, then most recently active
+export const sortConversations = (conversations: Conversation[]) =>
+  [...conversations].sort(
+    (a, b) =>
+      Number(b.pinned) - Number(a.pinned) ||
+      b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
@@ -0,0 +1,63 @@
+// Unsent composer text per conversation, kept in localStorage so it survives
+// switching conversations and reloading the page.
+
+const DRAFTS_STORAGE_KEY = "chat-and-chime:drafts";
+// Typing is batched into one write after a short pause
+const PERSIST_DELAY_MS = 400;
+
+const readDrafts = (): Record<string, string> => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) ?? "{}");
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    );
+  } catch {
+    return {};
+  }
+};
+
+let drafts = readDrafts();
+let persistTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  persistTimer = undefined;
+  try {
+    if (Object.keys(drafts).length === 0) localStorage.removeItem(DRAFTS_STORAGE_KEY);
+    else localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    console.warn("Could not persist drafts:", error);
+  }
+};
+
+// Don't lose the last keystrokes when the tab closes mid-pause
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", () => {
+    if (persistTimer !== undefined) {
+      clearTimeout(persistTimer);
+      persist();
+    }
+  });
+}
+
+export const getDraft = (conversationId: string) => drafts[conversationId] ?? "";
+
+export const subscribeDrafts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// An empty draft removes the entry
+export const setDraft = (conversationId: string, text: string) => {
+  if (getDraft(conversationId) === text) return;
+
+  const { [conversationId]: _previous, ...rest } = drafts;
+  drafts = text ? { ...rest, [conversationId]: text } : rest;
+
+  if (persistTimer !== undefined) clearTimeout(persistTimer);
+  persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+  listeners.forEach((listener) => listener());
+};
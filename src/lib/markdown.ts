@@ -0,0 +1,21 @@
+// Reduce Markdown to the words a person would read out, for TTS and
+// plain-text copies. Code blocks are summarised rather than spelled out.
+export const markdownToPlainText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?(```|$)/g, " (code block) ")
+    .replace(/\$\$[\s\S]*?\$\$/g, " (formula) ")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, "")
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, "")
+    .replace(/\|/g, " ")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    // The preceding character is captured and put back; lookbehind would be
+    // a parse error on Safari before 16.4
+    .replace(/(^|\W)(\*|_)(\S.*?)\2(?!\w)/g, "$1$3")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
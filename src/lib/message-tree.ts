@@ -0,0 +1,74 @@
+import type { Conversation, Message } from "@/types/chat";
+
+// A conversation stores every message it has ever had as a tree: each
+// message points at the one it follows (`parentId`), and editing or
+// regenerating adds a sibling instead of overwriting. What's on screen is
+// the path from the root to `activeLeafId`.
+
+// Oldest first; stops early if a parent is missing
+export const getPath = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  const seen = new Set<string>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+};
+
+export const getThread = (conversation: Conversation) =>
+  getPath(conversation.messages, conversation.activeLeafId);
+
+// Alternatives for a message, itself included, in the order they were added
+export const getSiblings = (messages: Message[], message: Message) =>
+  messages.filter((m) => m.parentId === message.parentId);
+
+// Follow the newest child down from a message to the end of its branch
+export const findLatestLeaf = (messages: Message[], fromId: string) => {
+  let leafId = fromId;
+  for (;;) {
+    const children = messages.filter((m) => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+};
+
+// Take a message out of the tree together with everything that follows it,
+// in every branch. Handing its replies to its parent instead would put two
+// assistant turns in a row and mix unrelated branches together.
+export const removeMessage = (messages: Message[], id: string) => {
+  if (!messages.some((m) => m.id === id)) return messages;
+  const removed = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const m of messages) {
+      if (m.parentId !== null && removed.has(m.parentId) && !removed.has(m.id)) {
+        removed.add(m.id);
+        grew = true;
+      }
+    }
+  }
+  return messages.filter((m) => !removed.has(m.id));
+};
+
+// After an edit removed the active leaf, fall back to its nearest surviving
+// ancestor (or the newest message, if none survive)
+export const resolveActiveLeaf = (
+  before: Message[],
+  after: Message[],
+  leafId: string | null
+): string | null => {
+  const remaining = new Set(after.map((m) => m.id));
+  const byId = new Map(before.map((m) => [m.id, m]));
+
+  let current = leafId;
+  while (current && !remaining.has(current)) {
+    current = byId.get(current)?.parentId ?? null;
+  }
+  return current ?? after[after.length - 1]?.id ?? null;
+};
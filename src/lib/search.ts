@@ -0,0 +1,141 @@
+import type { Conversation, Message } from "@/types/chat";
+
+// Full-text search over every message in every conversation (all branches).
+// The index is just lower-cased text kept next to each message; at chat
+// scale a linear scan is instant and avoids keeping a second copy in sync.
+
+export type SpeakerFilter = "all" | "user" | "assistant";
+
+export interface SearchFilters {
+  speaker: SpeakerFilter;
+  // Only messages at or after this time
+  since?: Date;
+}
+
+export interface SearchEntry {
+  conversation: Conversation;
+  message: Message;
+  text: string;
+}
+
+export interface SearchSnippet {
+  text: string;
+  // [start, end) ranges within `text` to highlight
+  highlights: [number, number][];
+}
+
+export interface SearchHit {
+  conversation: Conversation;
+  message: Message;
+  snippet: SearchSnippet;
+  score: number;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const buildSearchIndex = (conversations: Conversation[]): SearchEntry[] =>
+  conversations.flatMap((conversation) =>
+    conversation.messages
+      .filter((message) => !message.error && message.content.trim())
+      .map((message) => ({ conversation, message, text: message.content.toLowerCase() }))
+  );
+
+const tokenize = (query: string) =>
+  [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+
+const findAll = (text: string, term: string) => {
+  const positions: number[] = [];
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) {
+    positions.push(at);
+  }
+  return positions;
+};
+
+const isWordStart = (text: string, at: number) => at === 0 || !/[\p{L}\p{N}]/u.test(text[at - 1]);
+
+const buildSnippet = (content: string, text: string, terms: string[], anchor: number): SearchSnippet => {
+  const start = Math.max(0, anchor - SNIPPET_RADIUS);
+  const end = Math.min(content.length, anchor + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const body = content.slice(start, end).replace(/\s+/g, " ");
+
+  // Whitespace collapsing shifts offsets, so find the terms again in the snippet
+  const lower = body.toLowerCase();
+  const highlights = terms
+    .flatMap((term) => findAll(lower, term).map((at): [number, number] => [at, at + term.length]))
+    .sort((a, b) => a[0] - b[0])
+    .map(([from, to]): [number, number] => [from + prefix.length, to + prefix.length]);
+
+  return { text: `${prefix}${body}${suffix}`, highlights };
+};
+
+// Messages containing every word of the query, best first. Whole-word and
+// exact-phrase matches rank higher, then more recent messages.
+export const searchMessages = (
+  index: SearchEntry[],
+  query: string,
+  { speaker, since }: SearchFilters
+): SearchHit[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const phrase = query.trim().toLowerCase();
+
+  const hits: SearchHit[] = [];
+  for (const { conversation, message, text } of index) {
+    if (speaker === "user" && !message.isUser) continue;
+    if (speaker === "assistant" && message.isUser) continue;
+    if (since && message.timestamp < since) continue;
+
+    let score = 0;
+    let anchor = -1;
+    let matchesAll = true;
+    for (const term of terms) {
+      const positions = findAll(text, term);
+      if (positions.length === 0) {
+        matchesAll = false;
+        break;
+      }
+      if (anchor === -1) anchor = positions[0];
+      score += Math.min(positions.length, 5);
+      score += positions.filter((at) => isWordStart(text, at)).length > 0 ? 2 : 0;
+    }
+    if (!matchesAll) continue;
+
+    if (terms.length > 1 && text.includes(phrase)) {
+      score += 5;
+      anchor = text.indexOf(phrase);
+    }
+
+    hits.push({
+      conversation,
+      message,
+      snippet: buildSnippet(message.content, text, terms, anchor),
+      score,
+    });
+  }
+
+  // Recency only breaks ties, so an old exact match still beats a new partial one
+  return hits
+    .sort(
+      (a, b) => b.score - a.score || b.message.timestamp.getTime() - a.message.timestamp.getTime()
+    )
+    .slice(0, MAX_RESULTS);
+};
+
+export const DATE_RANGES = {
+  any: { label: "Any time", days: null },
+  day: { label: "Past day", days: 1 },
+  week: { label: "Past week", days: 7 },
+  month: { label: "Past month", days: 30 },
+  year: { label: "Past year", days: 365 },
+} as const;
+
+export type DateRange = keyof typeof DATE_RANGES;
+
+export const sinceForRange = (range: DateRange) => {
+  const { days } = DATE_RANGES[range];
+  return days === null ? undefined : new Date(Date.now() - days * DAY_MS);
+};
@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+// User preferences kept in localStorage. Each field falls back to its default
+// on its own, so adding a setting never invalidates what's already saved.
+
+const SETTINGS_STORAGE_KEY = "chat-and-chime:settings";
+
+// Upper bounds for the schema below. A stored value past one fails validation
+// and `.catch` silently resets it to the default, so anything that writes
+// these settings has to check the limit first and tell the user.
+export const HISTORY_MAX_TURNS_LIMIT = 200;
+export const HISTORY_MAX_CHARS_LIMIT = 200_000;
+export const SYSTEM_PROMPT_MAX_LENGTH = 4000;
+export const MODEL_MAX_LENGTH = 200;
+
+const SettingsSchema = z.object({
+  // How much earlier conversation is sent along with each prompt
+  historyMaxTurns: z.number().int().min(0).max(HISTORY_MAX_TURNS_LIMIT).catch(20),
+  historyMaxChars: z.number().int().min(0).max(HISTORY_MAX_CHARS_LIMIT).catch(12_000),
+  // Sent with every /chat request; empty leaves both up to the backend
+  systemPrompt: z.string().max(SYSTEM_PROMPT_MAX_LENGTH).catch(""),
+  model: z.string().max(MODEL_MAX_LENGTH).catch(""),
+  voiceBackend: z.enum(["browser", "server"]).catch("browser"),
+  // "hands-free" listens continuously; "push-to-talk" only while a key/button is held
+  voiceInputMode: z.enum(["hands-free", "push-to-talk"]).catch("hands-free"),
+  // Voice activity detection for the server backend (see lib/voice/vad)
+  vadSensitivity: z.number().min(0).max(100).catch(50),
+  vadSilenceMs: z.number().int().min(200).max(5000).catch(800),
+  // Browser backend: review each transcript before it's sent
+  voiceConfirmBeforeSend: z.boolean().catch(false),
+  // Locale for speech input, also sent to /chat and /voice (see lib/voice/languages)
+  speechLanguage: z.string().catch("auto"),
+  // Spoken replies: browser TTS uses all of these; /voice is asked for the
+  // voice, rate and pitch and its audio is played at the chosen volume
+  ttsVoiceURI: z.string().catch(""),
+  ttsRate: z.number().min(0.5).max(2).catch(0.9),
+  ttsPitch: z.number().min(0).max(2).catch(1),
+  ttsVolume: z.number().min(0).max(1).catch(1),
+  // Swap the chosen voice for one in the reply's language when they differ
+  ttsMatchLanguage: z.boolean().catch(false),
+  // Let the user cut the assistant off by talking (or pressing the talk button)
+  bargeIn: z.boolean().catch(true),
+  // How recordings are uploaded to /voice (see lib/voice/recorder)
+  voiceUploadFormat: z.enum(["wav", "compressed"]).catch("wav"),
+  voiceSampleRate: z.number().int().min(8000).max(48_000).catch(16_000),
+});
+
+export type AppSettings = z.infer<typeof SettingsSchema>;
+
+export const DEFAULT_SETTINGS: AppSettings = SettingsSchema.parse({});
+
+const readSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return SettingsSchema.parse(raw ? JSON.parse(raw) : {});
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = readSettings();
+const listeners = new Set<() => void>();
+
+export const getSettings = () => settings;
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateSettings = (patch: Partial<AppSettings>) => {
+  settings = SettingsSchema.parse({ ...settings, ...patch });
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not persist settings:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
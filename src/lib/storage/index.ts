@@ -0,0 +1,130 @@
+import type { Conversation } from "@/types/chat";
+import { createIndexedDbBackend } from "./indexed-db";
+import { createLocalStorageBackend } from "./local-storage";
+import { deserializeConversation, serializeConversation, type StoredConversation } from "./schema";
+import type { StorageBackend } from "./types";
+
+export type { StorageBackend } from "./types";
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+// Attachment keys each conversation has in the attachment store. Files never
+// change, so they're written once rather than with every save of the record.
+const storedAttachments = new Map<string, Set<string>>();
+
+// Prefer IndexedDB; fall back to localStorage when it's missing or fails to
+// open (e.g. Firefox private windows)
+const resolveBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return await createIndexedDbBackend();
+    } catch (error) {
+      console.warn("IndexedDB unavailable, falling back to localStorage:", error);
+    }
+  }
+  return createLocalStorageBackend();
+};
+
+export const getStorageBackend = () => {
+  backendPromise ??= resolveBackend();
+  return backendPromise;
+};
+
+// Swap the backend, e.g. for an in-memory store
+export const setStorageBackend = (backend: StorageBackend) => {
+  backendPromise = Promise.resolve(backend);
+  storedAttachments.clear();
+};
+
+// Scoped by conversation so imported copies don't share files
+const attachmentKey = (conversationId: string, attachmentId: string) =>
+  `${conversationId}:${attachmentId}`;
+
+// Fill in attachment data saved outside a raw record, before it's deserialized
+const restoreAttachments = async (backend: StorageBackend, record: unknown) => {
+  const { id, messages } = (record ?? {}) as { id?: unknown; messages?: unknown };
+  if (typeof id !== "string" || !Array.isArray(messages)) return record;
+
+  const keys = new Set<string>();
+  for (const message of messages) {
+    const attachments = (message as { attachments?: unknown } | null)?.attachments;
+    if (!Array.isArray(attachments)) continue;
+    for (const attachment of attachments as { id?: unknown; data?: unknown }[]) {
+      if (typeof attachment?.id !== "string" || typeof attachment.data === "string") continue;
+      const key = attachmentKey(id, attachment.id);
+      const data = await backend.getAttachment(key);
+      // A file whose write failed is dropped by deserialization
+      if (data === undefined) continue;
+      attachment.data = data;
+      keys.add(key);
+    }
+  }
+  storedAttachments.set(id, keys);
+  return record;
+};
+
+// The record as saved: attachments without their data
+const withoutAttachmentData = (record: StoredConversation): StoredConversation => ({
+  ...record,
+  messages: record.messages.map((message) =>
+    message.attachments
+      ? { ...message, attachments: message.attachments.map(({ data, ...rest }) => rest) }
+      : message
+  ),
+});
+
+// Write files the attachment store doesn't have yet and drop ones no message
+// refers to any more (deleted messages)
+const syncAttachments = async (backend: StorageBackend, record: StoredConversation) => {
+  const stored = storedAttachments.get(record.id) ?? new Set<string>();
+  storedAttachments.set(record.id, stored);
+  const current = new Set<string>();
+
+  for (const message of record.messages) {
+    for (const { id, data } of message.attachments ?? []) {
+      const key = attachmentKey(record.id, id);
+      current.add(key);
+      if (stored.has(key) || data === undefined) continue;
+      await backend.putAttachment(key, data);
+      stored.add(key);
+    }
+  }
+  for (const key of stored) {
+    if (current.has(key)) continue;
+    await backend.removeAttachment(key);
+    stored.delete(key);
+  }
+};
+
+export const loadConversations = async (): Promise<Conversation[]> => {
+  const backend = await getStorageBackend();
+  const records = await backend.getAll();
+  const restored = await Promise.all(records.map((record) => restoreAttachments(backend, record)));
+  return restored
+    .map(deserializeConversation)
+    .filter((c): c is Conversation => c !== null);
+};
+
+export const loadConversation = async (id: string): Promise<Conversation | null> => {
+  const backend = await getStorageBackend();
+  const record = await backend.get(id);
+  return record === undefined
+    ? null
+    : deserializeConversation(await restoreAttachments(backend, record));
+};
+
+// The record goes first so new turns are kept even when a large file doesn't
+// fit; that failure is still reported to the caller
+export const saveConversation = async (conversation: Conversation) => {
+  const backend = await getStorageBackend();
+  const record = serializeConversation(conversation);
+  await backend.put(withoutAttachmentData(record));
+  await syncAttachments(backend, record);
+};
+
+export const deleteConversation = async (id: string) => {
+  const backend = await getStorageBackend();
+  await backend.remove(id);
+  for (const key of storedAttachments.get(id) ?? []) await backend.removeAttachment(key);
+  storedAttachments.delete(id);
+};
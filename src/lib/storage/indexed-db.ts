@@ -0,0 +1,62 @@
+import type { StoredConversation } from "./schema";
+import type { StorageBackend } from "./types";
+
+const DB_NAME = "chat-and-chime";
+// IndexedDB object store layout version, independent of SCHEMA_VERSION
+// v2: attachment contents get their own store
+const DB_VERSION = 2;
+const STORE_NAME = "conversations";
+const ATTACHMENT_STORE_NAME = "attachments";
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENT_STORE_NAME)) {
+        db.createObjectStore(ATTACHMENT_STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked"));
+  });
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+
+  const run = <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName = STORE_NAME
+  ) => promisify(action(db.transaction(storeName, mode).objectStore(storeName)));
+
+  return {
+    name: "indexeddb",
+    getAll: () => run("readonly", (store) => store.getAll()),
+    get: (id) => run("readonly", (store) => store.get(id)),
+    put: async (record: StoredConversation) => {
+      await run("readwrite", (store) => store.put(record));
+    },
+    remove: async (id) => {
+      await run("readwrite", (store) => store.delete(id));
+    },
+    getAttachment: (key) =>
+      run<string | undefined>("readonly", (store) => store.get(key), ATTACHMENT_STORE_NAME),
+    putAttachment: async (key, data) => {
+      await run("readwrite", (store) => store.put(data, key), ATTACHMENT_STORE_NAME);
+    },
+    removeAttachment: async (key) => {
+      await run("readwrite", (store) => store.delete(key), ATTACHMENT_STORE_NAME);
+    },
+  };
+};
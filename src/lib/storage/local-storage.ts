@@ -0,0 +1,44 @@
+import type { StoredConversation } from "./schema";
+import type { StorageBackend } from "./types";
+
+const KEY_PREFIX = "chat-and-chime:conversation:";
+const ATTACHMENT_PREFIX = "chat-and-chime:attachment:";
+
+const read = (key: string): unknown | undefined => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn(`Ignoring corrupt stored conversation "${key}"`);
+    return undefined;
+  }
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: "localstorage",
+  getAll: async () => {
+    const records: unknown[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(KEY_PREFIX)) continue;
+      const record = read(key);
+      if (record !== undefined) records.push(record);
+    }
+    return records;
+  },
+  get: async (id) => read(KEY_PREFIX + id),
+  put: async (record: StoredConversation) => {
+    localStorage.setItem(KEY_PREFIX + record.id, JSON.stringify(record));
+  },
+  remove: async (id) => {
+    localStorage.removeItem(KEY_PREFIX + id);
+  },
+  getAttachment: async (key) => localStorage.getItem(ATTACHMENT_PREFIX + key) ?? undefined,
+  putAttachment: async (key, data) => {
+    localStorage.setItem(ATTACHMENT_PREFIX + key, data);
+  },
+  removeAttachment: async (key) => {
+    localStorage.removeItem(ATTACHMENT_PREFIX + key);
+  },
+});
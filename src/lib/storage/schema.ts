@@ -0,0 +1,190 @@
+import type {
+  AudioAttachment,
+  Conversation,
+  FileAttachment,
+  Message,
+  MessageError,
+} from "@/types/chat";
+import { DEFAULT_TITLE } from "@/lib/conversation";
+
+// Bump this and register a migration below whenever the stored shape changes.
+// New optional fields don't need a bump as long as deserialization defaults them.
+export const SCHEMA_VERSION = 4;
+
+// `data` is left out of saved records and kept in the backend's attachment
+// store instead (see ./index); exports still carry it inline
+export type StoredAttachment = Omit<FileAttachment, "data"> & { data?: string };
+
+export interface StoredMessage {
+  id: string;
+  parentId: string | null;
+  content: string;
+  isUser: boolean;
+  timestamp: string;
+  error?: MessageError;
+  source?: "voice";
+  audio?: AudioAttachment;
+  attachments?: StoredAttachment[];
+  interrupted?: true;
+  stopped?: true;
+}
+
+export interface StoredConversation {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  pinned: boolean;
+  messages: StoredMessage[];
+  activeLeafId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+// migrations[n] upgrades a record from version n to n + 1
+const migrations: Record<number, (record: RawRecord) => RawRecord> = {
+  // v0: records saved without a schemaVersion field
+  0: (record) => ({ ...record, schemaVersion: 1 }),
+  // v2: conversations can be pinned to the top of the sidebar
+  1: (record) => ({ ...record, pinned: false, schemaVersion: 2 }),
+  // v3: messages form a tree; existing conversations become a single branch
+  2: (record) => {
+    const messages = Array.isArray(record.messages) ? record.messages.filter(isRecord) : [];
+    const chained: RawRecord[] = messages.map((m, i) => ({
+      ...m,
+      parentId: i === 0 ? null : messages[i - 1].id,
+    }));
+    return {
+      ...record,
+      messages: chained,
+      activeLeafId: chained[chained.length - 1]?.id ?? null,
+      schemaVersion: 3,
+    };
+  },
+  // v4: attachment data may live outside the record; inline data still loads
+  3: (record) => ({ ...record, schemaVersion: 4 }),
+};
+
+const toDate = (value: unknown, fallback = new Date()): Date => {
+  const date = new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? fallback : date;
+};
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const migrate = (record: RawRecord): RawRecord | null => {
+  let current = record;
+  let version = typeof current.schemaVersion === "number" ? current.schemaVersion : 0;
+
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Skipping conversation stored with newer schema v${version}`);
+    return null;
+  }
+
+  while (version < SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) {
+      console.warn(`No migration from conversation schema v${version}`);
+      return null;
+    }
+    current = step(current);
+    version += 1;
+  }
+
+  return current;
+};
+
+const deserializeAttachment = (value: unknown): FileAttachment | null =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.mimeType === "string" &&
+  typeof value.data === "string"
+    ? {
+        id: value.id,
+        name: value.name,
+        mimeType: value.mimeType,
+        size: typeof value.size === "number" ? value.size : 0,
+        data: value.data,
+      }
+    : null;
+
+const deserializeMessage = (value: unknown): Message | null => {
+  if (!isRecord(value) || typeof value.id !== "string") return null;
+  return {
+    id: value.id,
+    parentId: typeof value.parentId === "string" ? value.parentId : null,
+    content: typeof value.content === "string" ? value.content : "",
+    isUser: value.isUser === true,
+    timestamp: toDate(value.timestamp),
+    error: isRecord(value.error)
+      ? {
+          message: String(value.error.message ?? "Something went wrong."),
+          retryable: value.error.retryable === true,
+        }
+      : undefined,
+    source: value.source === "voice" ? "voice" : undefined,
+    audio:
+      isRecord(value.audio) &&
+      typeof value.audio.data === "string" &&
+      typeof value.audio.mimeType === "string"
+        ? { data: value.audio.data, mimeType: value.audio.mimeType }
+        : undefined,
+    attachments: Array.isArray(value.attachments)
+      ? value.attachments.map(deserializeAttachment).filter((a): a is FileAttachment => a !== null)
+      : undefined,
+    interrupted: value.interrupted === true || undefined,
+    stopped: value.stopped === true || undefined,
+  };
+};
+
+export const deserializeConversation = (value: unknown): Conversation | null => {
+  if (!isRecord(value)) return null;
+
+  const record = migrate(value);
+  if (!record || typeof record.id !== "string") return null;
+
+  const messages = Array.isArray(record.messages)
+    ? record.messages.map(deserializeMessage).filter((m): m is Message => m !== null)
+    : [];
+  const createdAt = toDate(record.createdAt);
+  const activeLeafId = messages.some((m) => m.id === record.activeLeafId)
+    ? (record.activeLeafId as string)
+    : messages[messages.length - 1]?.id ?? null;
+
+  return {
+    id: record.id,
+    title: typeof record.title === "string" ? record.title : DEFAULT_TITLE,
+    pinned: record.pinned === true,
+    messages,
+    activeLeafId,
+    createdAt,
+    updatedAt: toDate(record.updatedAt, createdAt),
+  };
+};
+
+export const serializeConversation = (conversation: Conversation): StoredConversation => ({
+  schemaVersion: SCHEMA_VERSION,
+  id: conversation.id,
+  title: conversation.title,
+  pinned: conversation.pinned,
+  messages: conversation.messages.map((m) => ({
+    id: m.id,
+    parentId: m.parentId,
+    content: m.content,
+    isUser: m.isUser,
+    timestamp: m.timestamp.toISOString(),
+    ...(m.error && { error: m.error }),
+    ...(m.source === "voice" && { source: "voice" as const }),
+    ...(m.audio && { audio: m.audio }),
+    ...(m.attachments?.length && { attachments: m.attachments }),
+    ...(m.interrupted && { interrupted: true as const }),
+    // A reply still streaming when saved won't resume after a reload
+    ...((m.stopped || m.isStreaming) && { stopped: true as const }),
+  })),
+  activeLeafId: conversation.activeLeafId,
+  createdAt: conversation.createdAt.toISOString(),
+  updatedAt: conversation.updatedAt.toISOString(),
+});
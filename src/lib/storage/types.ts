@@ -0,0 +1,16 @@
+import type { StoredConversation } from "./schema";
+
+// A place conversations can be written to. Backends deal in raw stored
+// records; (de)serialization and migration happen in ./schema.
+export interface StorageBackend {
+  readonly name: string;
+  getAll(): Promise<unknown[]>;
+  get(id: string): Promise<unknown | undefined>;
+  put(record: StoredConversation): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Attachment contents (base64), kept apart from the records so rewriting a
+  // conversation doesn't rewrite its files. Keys come from ./index.
+  getAttachment(key: string): Promise<string | undefined>;
+  putAttachment(key: string, data: string): Promise<void>;
+  removeAttachment(key: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+let audioContext: AudioContext | null = null;
+
+// One shared context; browsers cap how many can be open at once
+export const getAudioContext = () => {
+  audioContext ??= new (window.AudioContext ||
+    (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  return audioContext;
+};
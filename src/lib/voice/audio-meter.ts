@@ -0,0 +1,128 @@
+import { getAudioContext } from "./audio-context";
+
+// Level metering for the avatar. Anything audible can be routed into one of
+// two analysers — the microphone ("input") or what the assistant is saying
+// ("output") — and the avatar samples them once per animation frame.
+
+export type AudioChannel = "input" | "output";
+
+// Rough mouth shapes: "open" for A-like vowels, "wide" for E/I and
+// sibilants, "round" for O/U, "rest" between words
+export type Viseme = "rest" | "open" | "wide" | "round";
+
+export interface AudioFrame {
+  // 0 … 1 loudness
+  level: number;
+  // 0 … 1 energy in five log-spaced bands from low to high pitch
+  bands: number[];
+  viseme: Viseme;
+}
+
+export const SILENT_FRAME: AudioFrame = { level: 0, bands: [0, 0, 0, 0, 0], viseme: "rest" };
+
+const BAND_EDGES_HZ = [80, 250, 500, 1000, 2000, 4000];
+const REST_LEVEL = 0.05;
+// Browser TTS can't be tapped, so word boundaries fake an envelope instead
+const SYNTHETIC_DECAY_MS = 220;
+
+const analysers = new Map<AudioChannel, AnalyserNode>();
+let synthetic: { viseme: Viseme; at: number } | null = null;
+
+const getAnalyser = (channel: AudioChannel) => {
+  let analyser = analysers.get(channel);
+  if (!analyser) {
+    analyser = getAudioContext().createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+    analysers.set(channel, analyser);
+  }
+  return analyser;
+};
+
+// Route a node into a channel's meter; returns a function that detaches it
+export const connectToMeter = (node: AudioNode, channel: AudioChannel) => {
+  const analyser = getAnalyser(channel);
+  node.connect(analyser);
+  return () => {
+    try {
+      node.disconnect(analyser);
+    } catch {
+      // Already disconnected
+    }
+  };
+};
+
+export const meterStream = (stream: MediaStream, channel: AudioChannel) => {
+  const source = getAudioContext().createMediaStreamSource(stream);
+  const detach = connectToMeter(source, channel);
+  return () => {
+    detach();
+    source.disconnect();
+  };
+};
+
+// Pick a mouth shape from the dominant vowel of a word
+const visemeForWord = (word: string): Viseme => {
+  const vowel = word.toLowerCase().match(/[aeiouy]/)?.[0];
+  if (!vowel) return "rest";
+  if (vowel === "o" || vowel === "u") return "round";
+  if (vowel === "a") return "open";
+  return "wide";
+};
+
+// Called by speech synthesis as each word starts
+export const markSyntheticWord = (word: string) => {
+  synthetic = { viseme: visemeForWord(word), at: performance.now() };
+};
+
+const readSynthetic = (): AudioFrame | null => {
+  if (!synthetic) return null;
+  const age = performance.now() - synthetic.at;
+  if (age >= SYNTHETIC_DECAY_MS) return null;
+
+  // Open quickly, then close towards the next word
+  const level = Math.sin((Math.PI * age) / SYNTHETIC_DECAY_MS) * 0.8;
+  return { level, bands: BAND_EDGES_HZ.slice(1).map(() => level), viseme: synthetic.viseme };
+};
+
+const classify = (level: number, centroidHz: number): Viseme => {
+  if (level < REST_LEVEL) return "rest";
+  if (centroidHz < 900) return "round";
+  if (centroidHz > 2200) return "wide";
+  return "open";
+};
+
+// Sample a channel's current loudness, spectrum and mouth shape
+export const readAudioFrame = (channel: AudioChannel): AudioFrame => {
+  const analyser = getAnalyser(channel);
+  const sampleRate = analyser.context.sampleRate;
+
+  const waveform = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(waveform);
+  let sum = 0;
+  for (const sample of waveform) sum += sample * sample;
+  const level = Math.min(1, Math.sqrt(sum / waveform.length) * 6);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(spectrum);
+  const binHz = sampleRate / analyser.fftSize;
+
+  const bands = BAND_EDGES_HZ.slice(1).map((high, i) => {
+    const start = Math.floor(BAND_EDGES_HZ[i] / binHz);
+    const end = Math.max(start + 1, Math.floor(high / binHz));
+    let total = 0;
+    for (let bin = start; bin < end; bin++) total += spectrum[bin];
+    return total / (end - start) / 255;
+  });
+
+  let weighted = 0;
+  let energy = 0;
+  for (let bin = Math.floor(100 / binHz); bin < Math.min(spectrum.length, 5000 / binHz); bin++) {
+    weighted += bin * binHz * spectrum[bin];
+    energy += spectrum[bin];
+  }
+  const frame = { level, bands, viseme: classify(level, energy ? weighted / energy : 0) };
+
+  const fake = channel === "output" ? readSynthetic() : null;
+  return fake && fake.level > frame.level ? fake : frame;
+};
@@ -0,0 +1,39 @@
+import { getAudioContext } from "./audio-context";
+import { connectToMeter } from "./audio-meter";
+
+// Play base64-encoded audio (e.g. TTS from /voice); resolves when playback
+// ends or the signal aborts it
+export const playBase64Audio = async (
+  base64: string,
+  signal?: AbortSignal,
+  mimeType = "audio/mp3",
+  volume = 1
+) => {
+  // Convert base64 to ArrayBuffer
+  const res = await fetch(`data:${mimeType};base64,${base64}`);
+  const arrayBuffer = await res.arrayBuffer();
+
+  const audioCtx = getAudioContext();
+  if (audioCtx.state === "suspended") await audioCtx.resume();
+  const buffer = await audioCtx.decodeAudioData(arrayBuffer);
+  if (signal?.aborted) return;
+
+  const source = audioCtx.createBufferSource();
+  source.buffer = buffer;
+  const gain = audioCtx.createGain();
+  gain.gain.value = volume;
+  source.connect(gain).connect(audioCtx.destination);
+  const detachMeter = connectToMeter(source, "output");
+
+  await new Promise<void>((resolve) => {
+    const onAbort = () => source.stop();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    source.onended = () => {
+      signal?.removeEventListener("abort", onAbort);
+      detachMeter();
+      gain.disconnect();
+      resolve();
+    };
+    source.start(0);
+  });
+};
@@ -0,0 +1,14 @@
+// Base64-encode a blob (without the data: URL prefix)
+export const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const base64ToBlob = (base64: string, mimeType: string) =>
+  new Blob([Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))], { type: mimeType });
@@ -0,0 +1,66 @@
+// Locales offered for speech input. "auto" follows the browser's locale for
+// recognition and leaves the server to detect the language itself.
+export const AUTO_LANGUAGE = "auto";
+
+export const SPEECH_LANGUAGES = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "en-IN", label: "English (India)" },
+  { code: "es-ES", label: "Español (España)" },
+  { code: "es-MX", label: "Español (México)" },
+  { code: "fr-FR", label: "Français" },
+  { code: "de-DE", label: "Deutsch" },
+  { code: "it-IT", label: "Italiano" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "pt-PT", label: "Português (Portugal)" },
+  { code: "nl-NL", label: "Nederlands" },
+  { code: "sv-SE", label: "Svenska" },
+  { code: "pl-PL", label: "Polski" },
+  { code: "tr-TR", label: "Türkçe" },
+  { code: "ru-RU", label: "Русский" },
+  { code: "uk-UA", label: "Українська" },
+  { code: "ar-SA", label: "العربية" },
+  { code: "hi-IN", label: "हिन्दी" },
+  { code: "bn-IN", label: "বাংলা" },
+  { code: "id-ID", label: "Bahasa Indonesia" },
+  { code: "vi-VN", label: "Tiếng Việt" },
+  { code: "ja-JP", label: "日本語" },
+  { code: "ko-KR", label: "한국어" },
+  { code: "zh-CN", label: "中文 (简体)" },
+  { code: "zh-TW", label: "中文 (繁體)" },
+];
+
+// The locale actually used for recognition and speech
+export const resolveSpeechLanguage = (language: string) =>
+  language === AUTO_LANGUAGE ? navigator.language || "en-US" : language;
+
+// The locale to send to the backend, or undefined to let it decide
+export const requestedLanguage = (language: string) =>
+  language === AUTO_LANGUAGE ? undefined : language;
+
+// Scripts that identify a language on their own; Latin text can't be told
+// apart this cheaply, so it keeps the selected locale. The first language is
+// the guess; any other listed language that's selected is kept instead.
+const SCRIPT_LANGUAGES: [RegExp, string[]][] = [
+  [/[぀-ヿ]/, ["ja"]],
+  [/[가-힯]/, ["ko"]],
+  [/[一-鿿]/, ["zh", "ja"]],
+  [/[Ѐ-ӿ]/, ["ru", "uk", "bg", "sr", "be", "mk", "kk"]],
+  [/[؀-ۿ]/, ["ar", "fa", "ur"]],
+  [/[ऀ-ॿ]/, ["hi", "mr", "ne"]],
+  [/[ঀ-৿]/, ["bn"]],
+  [/[฀-๿]/, ["th"]],
+  [/[֐-׿]/, ["he"]],
+  [/[Ͱ-Ͽ]/, ["el"]],
+];
+
+// Pick the language to speak `text` in, so a reply in another script isn't
+// read out by a voice that can't pronounce it
+export const detectTextLanguage = (text: string, fallback: string) => {
+  const primary = fallback.split("-")[0].toLowerCase();
+  for (const [pattern, languages] of SCRIPT_LANGUAGES) {
+    // Cyrillic covers several languages; keep e.g. uk-UA if that's selected
+    if (pattern.test(text)) return languages.includes(primary) ? fallback : languages[0];
+  }
+  return fallback;
+};
@@ -0,0 +1,13 @@
+// Echo cancellation keeps the assistant's own voice out of the microphone,
+// so barge-in reacts to the user rather than to the speakers
+const MICROPHONE_CONSTRAINTS: MediaStreamConstraints = {
+  audio: {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+};
+
+export const isMicrophoneSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+export const openMicrophone = () => navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
@@ -0,0 +1,107 @@
+import { getAudioContext } from "./audio-context";
+
+// Raw microphone samples via an AudioWorklet. The processor downmixes to
+// mono and posts batches to the main thread; "flush" sends the remainder.
+const PROCESSOR_NAME = "pcm-capture";
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = [];
+    this.length = 0;
+    this.port.onmessage = () => {
+      this.post(true);
+    };
+  }
+
+  post(final) {
+    const samples = new Float32Array(this.length);
+    let offset = 0;
+    for (const chunk of this.batch) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.batch = [];
+    this.length = 0;
+    this.port.postMessage({ samples, final }, [samples.buffer]);
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (channels && channels.length > 0) {
+      const mono = new Float32Array(channels[0].length);
+      for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / channels.length;
+      }
+      this.batch.push(mono);
+      this.length += mono.length;
+      if (this.length >= 4096) this.post(false);
+    }
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", PcmCaptureProcessor);
+`;
+
+let moduleReady: Promise<void> | null = null;
+
+const loadProcessor = (audioCtx: AudioContext) => {
+  moduleReady ??= (async () => {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+    try {
+      await audioCtx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  })();
+  // Don't cache a failure; the next capture tries again
+  moduleReady.catch(() => {
+    moduleReady = null;
+  });
+  return moduleReady;
+};
+
+export const isPcmCaptureSupported = () =>
+  typeof AudioWorkletNode !== "undefined" && "audioWorklet" in AudioContext.prototype;
+
+// Load the processor ahead of the first capture
+export const preparePcmCapture = () => loadProcessor(getAudioContext());
+
+export interface PcmRecording {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Capture until `stopSignal` fires, then resolve with everything recorded
+export const capturePcm = async (stream: MediaStream, stopSignal: AbortSignal): Promise<PcmRecording> => {
+  const audioCtx = getAudioContext();
+  await loadProcessor(audioCtx);
+
+  const source = audioCtx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(audioCtx, PROCESSOR_NAME, { numberOfOutputs: 0 });
+  source.connect(node);
+
+  const chunks: Float32Array[] = [];
+
+  return new Promise<PcmRecording>((resolve) => {
+    node.port.onmessage = (event: MessageEvent<{ samples: Float32Array; final: boolean }>) => {
+      chunks.push(event.data.samples);
+      if (!event.data.final) return;
+
+      source.disconnect();
+      node.port.close();
+
+      const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+      }
+      resolve({ samples, sampleRate: audioCtx.sampleRate });
+    };
+
+    const onStop = () => node.port.postMessage("flush");
+    if (stopSignal.aborted) onStop();
+    else stopSignal.addEventListener("abort", onStop, { once: true });
+  });
+};
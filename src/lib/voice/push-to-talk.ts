@@ -0,0 +1,46 @@
+// Shared state for a hold-to-talk control: the voice engine waits on it,
+// the UI presses and releases it
+export const createPushToTalk = () => {
+  let release: AbortController | null = null;
+  const pressWaiters = new Set<() => void>();
+
+  return {
+    get isPressed() {
+      return release !== null;
+    },
+
+    press() {
+      if (release) return;
+      release = new AbortController();
+      pressWaiters.forEach((resolve) => resolve());
+      pressWaiters.clear();
+    },
+
+    release() {
+      release?.abort();
+      release = null;
+    },
+
+    // Resolves with a signal that aborts once the button is let go
+    waitForPress(signal: AbortSignal) {
+      return new Promise<AbortSignal | null>((resolve) => {
+        if (release) {
+          resolve(release.signal);
+          return;
+        }
+        const onPress = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(release?.signal ?? null);
+        };
+        const onAbort = () => {
+          pressWaiters.delete(onPress);
+          resolve(null);
+        };
+        pressWaiters.add(onPress);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    },
+  };
+};
+
+export type PushToTalk = ReturnType<typeof createPushToTalk>;
@@ -0,0 +1,94 @@
+import { capturePcm, isPcmCaptureSupported } from "./pcm-capture";
+import { encodeWav, resample } from "./wav";
+
+// "wav": PCM captured through an AudioWorklet, resampled and encoded as WAV
+// "compressed": whatever Opus/AAC container MediaRecorder supports, sent as-is
+export type UploadFormat = "wav" | "compressed";
+
+export interface RecordingFormat {
+  format: UploadFormat;
+  // Target rate for WAV uploads; compressed recordings keep the device rate
+  sampleRate: number;
+}
+
+export interface RecordedAudio {
+  blob: Blob;
+  filename: string;
+}
+
+// In order of preference; Safari only does MP4/AAC, Firefox prefers Ogg
+const RECORDER_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/ogg",
+  "audio/mp4",
+  "audio/aac",
+];
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/aac": "aac",
+  "audio/wav": "wav",
+};
+
+const pickRecorderMimeType = () =>
+  typeof MediaRecorder === "undefined"
+    ? undefined
+    : RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+const filenameFor = (mimeType: string) => `voice.${EXTENSIONS[mimeType.split(";")[0]] ?? "bin"}`;
+
+const recordCompressed = (stream: MediaStream, stopSignal: AbortSignal) =>
+  new Promise<RecordedAudio>((resolve, reject) => {
+    const recorder = new MediaRecorder(stream, { mimeType: pickRecorderMimeType() });
+    const chunks: Blob[] = [];
+
+    const onStop = () => {
+      if (recorder.state !== "inactive") recorder.stop();
+    };
+    stopSignal.addEventListener("abort", onStop, { once: true });
+
+    recorder.ondataavailable = (e: BlobEvent) => chunks.push(e.data);
+    recorder.onerror = () => reject(new Error("Recording failed"));
+    recorder.onstop = () => {
+      stopSignal.removeEventListener("abort", onStop);
+      // Label the upload with what was actually recorded
+      const mimeType = recorder.mimeType || chunks[0]?.type || "audio/webm";
+      resolve({ blob: new Blob(chunks, { type: mimeType }), filename: filenameFor(mimeType) });
+    };
+
+    recorder.start();
+    if (stopSignal.aborted) onStop();
+  });
+
+const recordWav = async (stream: MediaStream, stopSignal: AbortSignal, sampleRate: number) => {
+  const { samples, sampleRate: captureRate } = await capturePcm(stream, stopSignal);
+  const blob = encodeWav(resample(samples, captureRate, sampleRate), sampleRate);
+  return { blob, filename: filenameFor(blob.type) };
+};
+
+export const isRecordingSupported = () => isPcmCaptureSupported() || pickRecorderMimeType() !== undefined;
+
+// Record from an open microphone stream until `stopSignal` fires, falling
+// back to the other format if the preferred one isn't available or fails
+export const recordUntil = (
+  stream: MediaStream,
+  stopSignal: AbortSignal,
+  { format, sampleRate }: RecordingFormat
+): Promise<RecordedAudio> => {
+  const canWav = isPcmCaptureSupported();
+  const canCompress = pickRecorderMimeType() !== undefined;
+
+  if (!canCompress) return recordWav(stream, stopSignal, sampleRate);
+  if (format === "wav" && canWav) {
+    // The worklet can still fail to load, e.g. when a CSP blocks blob: modules
+    return recordWav(stream, stopSignal, sampleRate).catch((error) => {
+      console.warn("WAV capture failed, recording compressed audio instead:", error);
+      return recordCompressed(stream, stopSignal);
+    });
+  }
+  return recordCompressed(stream, stopSignal);
+};
@@ -0,0 +1,118 @@
+// The DOM lib ships the result types but not SpeechRecognition itself
+export interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+export interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+}
+
+export interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+declare global {
+  interface Window {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  }
+}
+
+// Errors after which listening again would just fail the same way
+const FATAL_ERRORS = new Set(["not-allowed", "service-not-allowed", "audio-capture", "language-not-supported"]);
+
+export class SpeechRecognitionError extends Error {
+  readonly code: string;
+
+  constructor(code: string) {
+    super(
+      code === "not-allowed" || code === "service-not-allowed"
+        ? "Microphone access was denied"
+        : `Speech recognition failed (${code})`
+    );
+    this.name = "SpeechRecognitionError";
+    this.code = code;
+  }
+
+  get isFatal() {
+    return FATAL_ERRORS.has(this.code);
+  }
+}
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | null =>
+  window.SpeechRecognition ?? window.webkitSpeechRecognition ?? null;
+
+export const isSpeechRecognitionSupported = () => getSpeechRecognition() !== null;
+
+interface RecognizeOptions {
+  lang?: string;
+  // Push-to-talk: keep listening until this fires instead of stopping at the
+  // first pause
+  stopSignal?: AbortSignal;
+  // Receives the best guess so far (committed text plus any interim words)
+  onInterim?: (transcript: string) => void;
+}
+
+// Listen for a single utterance. Resolves with the final transcript, or an
+// empty string if recognition ended without hearing anything.
+export const recognizeUtterance = (
+  signal: AbortSignal,
+  { lang = "en-US", stopSignal, onInterim }: RecognizeOptions = {}
+) =>
+  new Promise<string>((resolve, reject) => {
+    const SpeechRecognitionAPI = getSpeechRecognition();
+    if (!SpeechRecognitionAPI) {
+      reject(new SpeechRecognitionError("unsupported"));
+      return;
+    }
+
+    const recognition = new SpeechRecognitionAPI();
+    recognition.continuous = stopSignal !== undefined;
+    recognition.interimResults = onInterim !== undefined;
+    recognition.lang = lang;
+
+    let transcript = "";
+    let failure: SpeechRecognitionError | null = null;
+
+    const onAbort = () => recognition.abort();
+    const onStop = () => recognition.stop();
+    signal.addEventListener("abort", onAbort, { once: true });
+    stopSignal?.addEventListener("abort", onStop, { once: true });
+
+    recognition.onresult = (event) => {
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) transcript += event.results[i][0].transcript;
+        else interim += event.results[i][0].transcript;
+      }
+      onInterim?.((transcript + interim).trim());
+    };
+    recognition.onerror = (event) => {
+      // "no-speech" and "aborted" just mean this round heard nothing
+      if (event.error !== "no-speech" && event.error !== "aborted") {
+        failure = new SpeechRecognitionError(event.error);
+      }
+    };
+    recognition.onend = () => {
+      signal.removeEventListener("abort", onAbort);
+      stopSignal?.removeEventListener("abort", onStop);
+      if (failure) reject(failure);
+      else resolve(transcript.trim());
+    };
+
+    recognition.start();
+    if (stopSignal?.aborted) onStop();
+  });
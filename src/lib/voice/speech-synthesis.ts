@@ -0,0 +1,115 @@
+import { markSyntheticWord } from "./audio-meter";
+
+export const isSpeechSynthesisSupported = () => "speechSynthesis" in window;
+
+export interface SpeechPreferences {
+  // SpeechSynthesisVoice.voiceURI; empty picks a default voice for `lang`
+  voiceURI: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  // BCP 47 language of the text
+  lang?: string;
+  // Use a voice for `lang` instead of the chosen one when their languages differ
+  matchLanguage?: boolean;
+}
+
+export const DEFAULT_SPEECH: SpeechPreferences = { voiceURI: "", rate: 0.9, pitch: 1, volume: 1 };
+
+// Voices load asynchronously in most browsers: the list starts empty and
+// "voiceschanged" fires once it's ready, so keep a snapshot for React
+let voices: SpeechSynthesisVoice[] = [];
+const voiceListeners = new Set<() => void>();
+
+const refreshVoices = () => {
+  voices = speechSynthesis.getVoices();
+  voiceListeners.forEach((listener) => listener());
+};
+
+export const getVoices = () => voices;
+
+export const subscribeVoices = (listener: () => void) => {
+  if (!isSpeechSynthesisSupported()) return () => undefined;
+  if (voiceListeners.size === 0) {
+    speechSynthesis.addEventListener("voiceschanged", refreshVoices);
+    voices = speechSynthesis.getVoices();
+  }
+  voiceListeners.add(listener);
+  return () => {
+    voiceListeners.delete(listener);
+    if (voiceListeners.size === 0) speechSynthesis.removeEventListener("voiceschanged", refreshVoices);
+  };
+};
+
+const primaryLanguage = (lang: string) => lang.split(/[-_]/)[0].toLowerCase();
+
+// The chosen voice, or the best one for `lang` when none is chosen (or, with
+// matchLanguage, when the chosen one speaks another language)
+export const findVoice = (voiceURI: string, lang = "en-US", matchLanguage = false) => {
+  const available = speechSynthesis.getVoices();
+  const primary = primaryLanguage(lang);
+  const chosen = voiceURI ? available.find((voice) => voice.voiceURI === voiceURI) : undefined;
+  if (chosen && (!matchLanguage || primaryLanguage(chosen.lang) === primary)) return chosen;
+
+  const matching = available.filter((voice) => primaryLanguage(voice.lang) === primary);
+  const exact = matching.filter((voice) => voice.lang.replace("_", "-") === lang);
+  return (
+    exact.find((voice) => voice.name.includes("Google")) ||
+    exact[0] ||
+    matching.find((voice) => voice.name.includes("Google")) ||
+    matching[0] ||
+    chosen
+  );
+};
+
+// Name of the chosen voice, if it's installed
+export const findVoiceName = (voiceURI: string) =>
+  voiceURI ? speechSynthesis.getVoices().find((voice) => voice.voiceURI === voiceURI)?.name : undefined;
+
+export const cancelSpeech = () => {
+  if (isSpeechSynthesisSupported()) speechSynthesis.cancel();
+};
+
+// Speak text with the browser's TTS; resolves once it finishes or is cancelled
+export const speak = (
+  text: string,
+  signal?: AbortSignal,
+  { voiceURI, rate, pitch, volume, lang = "en-US", matchLanguage }: SpeechPreferences = DEFAULT_SPEECH
+) =>
+  new Promise<void>((resolve) => {
+    if (!isSpeechSynthesisSupported() || signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    speechSynthesis.cancel(); // cancel ongoing
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.volume = volume;
+    utterance.lang = lang;
+
+    const preferredVoice = findVoice(voiceURI, lang, matchLanguage);
+    if (preferredVoice) {
+      utterance.voice = preferredVoice;
+    }
+
+    const onAbort = () => speechSynthesis.cancel();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    // Drives the avatar's mouth, since synthesized speech can't be metered
+    utterance.onboundary = (event) => {
+      if (event.name !== "word") return;
+      const length = event.charLength || text.slice(event.charIndex).search(/\s|$/);
+      markSyntheticWord(text.slice(event.charIndex, event.charIndex + length));
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    speechSynthesis.speak(utterance);
+  });
@@ -0,0 +1,16 @@
+// idle → listening → transcribing → thinking → speaking → listening …
+// "confirming" sits between listening and thinking when the user reviews
+// transcripts before they're sent
+export type VoicePhase =
+  | "idle"
+  | "listening"
+  | "transcribing"
+  | "confirming"
+  | "thinking"
+  | "speaking";
+
+// "browser": Web Speech recognition + speechSynthesis, replies come from /chat
+// "server": recorded audio is posted to /voice, which answers with speech
+export type VoiceBackendKind = "browser" | "server";
+
+export type VoiceInputMode = "hands-free" | "push-to-talk";
@@ -0,0 +1,212 @@
+import { getAudioContext } from "./audio-context";
+import { isPcmCaptureSupported, preparePcmCapture } from "./pcm-capture";
+import { recordUntil, type RecordedAudio, type RecordingFormat } from "./recorder";
+
+// Energy-based voice activity detection: a segment starts when the input's
+// RMS level crosses a threshold and ends after `silenceMs` below it.
+
+export interface VadOptions {
+  // 0 (only loud, close speech) … 100 (picks up whispers and background noise)
+  sensitivity: number;
+  // Hangover: how long the level must stay low before a segment ends
+  silenceMs: number;
+  // Segments with less voiced audio than this are dropped as clicks/bumps
+  minSpeechMs?: number;
+  maxSegmentMs?: number;
+}
+
+const FRAME_MS = 30;
+const LOUDEST_THRESHOLD = 0.08;
+const QUIETEST_THRESHOLD = 0.005;
+// Longest dip below the threshold that still counts as continuous speech
+const SPEECH_GAP_MS = 150;
+// Audio kept from before the level crossed the threshold, so soft word
+// onsets aren't clipped
+const PRE_ROLL_MS = 300;
+
+// Map 0–100 onto an RMS threshold on a log scale, which tracks loudness
+export const sensitivityToThreshold = (sensitivity: number) => {
+  const t = Math.min(100, Math.max(0, sensitivity)) / 100;
+  return LOUDEST_THRESHOLD * Math.pow(QUIETEST_THRESHOLD / LOUDEST_THRESHOLD, t);
+};
+
+// Report the stream's RMS level every frame until the signal aborts
+export const monitorLevel = (
+  stream: MediaStream,
+  onLevel: (rms: number) => void,
+  signal: AbortSignal
+) => {
+  const audioCtx = getAudioContext();
+  const source = audioCtx.createMediaStreamSource(stream);
+  const analyser = audioCtx.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    onLevel(Math.sqrt(sum / samples.length));
+  }, FRAME_MS);
+
+  signal.addEventListener(
+    "abort",
+    () => {
+      clearInterval(timer);
+      source.disconnect();
+    },
+    { once: true }
+  );
+};
+
+// The stream's audio, PRE_ROLL_MS late. Recording this from the moment speech
+// is detected includes the lead-in that crossing the threshold missed.
+const delayStream = (stream: MediaStream, signal: AbortSignal) => {
+  const audioCtx = getAudioContext();
+  const source = audioCtx.createMediaStreamSource(stream);
+  const delay = audioCtx.createDelay(1);
+  delay.delayTime.value = PRE_ROLL_MS / 1000;
+  const destination = audioCtx.createMediaStreamDestination();
+  source.connect(delay).connect(destination);
+
+  signal.addEventListener(
+    "abort",
+    () => {
+      source.disconnect();
+      delay.disconnect();
+    },
+    { once: true }
+  );
+  return destination.stream;
+};
+
+// Wait for the next spoken segment and resolve with its recording, or null
+// if the signal aborts first
+export const captureUtterance = (
+  stream: MediaStream,
+  { sensitivity, silenceMs, minSpeechMs = 250, maxSegmentMs = 30_000 }: VadOptions,
+  format: RecordingFormat,
+  signal: AbortSignal
+) =>
+  new Promise<RecordedAudio | null>((resolve, reject) => {
+    const threshold = sensitivityToThreshold(sensitivity);
+    const monitor = new AbortController();
+    // Load the worklet while waiting so WAV capture starts as soon as speech does
+    if (format.format === "wav" && isPcmCaptureSupported()) {
+      preparePcmCapture().catch(() => {});
+    }
+    let segment: { startedAt: number; stop: AbortController; recording: Promise<RecordedAudio> } | null = null;
+    let lastVoiceAt = 0;
+
+    // Outlives the monitor by the pre-roll so the last segment can finish
+    const delayLine = new AbortController();
+
+    const cleanup = () => {
+      monitor.abort();
+      segment?.stop.abort();
+      delayLine.abort();
+    };
+
+    if (signal.aborted) {
+      resolve(null);
+      return;
+    }
+    const delayed = delayStream(stream, delayLine.signal);
+    signal.addEventListener(
+      "abort",
+      () => {
+        cleanup();
+        resolve(null);
+      },
+      { once: true }
+    );
+
+    const endSegment = () => {
+      if (!segment) return;
+      const { stop, recording } = segment;
+      segment = null;
+      monitor.abort();
+      // The recording lags the live level by the pre-roll; let it catch up
+      setTimeout(() => {
+        stop.abort();
+        delayLine.abort();
+      }, PRE_ROLL_MS);
+      recording.then(resolve, reject);
+    };
+
+    monitorLevel(
+      stream,
+      (rms) => {
+        const now = performance.now();
+
+        if (rms >= threshold) {
+          lastVoiceAt = now;
+          if (!segment) {
+            const stop = new AbortController();
+            segment = { startedAt: now, stop, recording: recordUntil(delayed, stop.signal, format) };
+            segment.recording.catch(reject);
+          }
+        } else if (segment && now - lastVoiceAt >= silenceMs) {
+          if (lastVoiceAt - segment.startedAt < minSpeechMs) {
+            // Too short to be speech: throw it away and keep waiting
+            segment.stop.abort();
+            segment = null;
+          } else {
+            endSegment();
+            return;
+          }
+        }
+
+        if (segment && now - segment.startedAt >= maxSegmentMs) endSegment();
+      },
+      monitor.signal
+    );
+  });
+
+// Resolve true once the user has been speaking for `minSpeechMs` (short dips
+// between syllables are tolerated), or false if the signal aborts first.
+// Used to notice the user talking over the assistant.
+export const waitForSpeech = (
+  stream: MediaStream,
+  { sensitivity, minSpeechMs = 250 }: VadOptions,
+  signal: AbortSignal
+) =>
+  new Promise<boolean>((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const threshold = sensitivityToThreshold(sensitivity);
+    const monitor = new AbortController();
+    let voicedSince: number | null = null;
+    let lastVoiceAt = 0;
+
+    signal.addEventListener(
+      "abort",
+      () => {
+        monitor.abort();
+        resolve(false);
+      },
+      { once: true }
+    );
+
+    monitorLevel(
+      stream,
+      (rms) => {
+        const now = performance.now();
+        if (rms >= threshold) {
+          lastVoiceAt = now;
+          voicedSince ??= now;
+          if (now - voicedSince >= minSpeechMs) {
+            monitor.abort();
+            resolve(true);
+          }
+        } else if (now - lastVoiceAt > SPEECH_GAP_MS) {
+          voicedSince = null;
+        }
+      },
+      monitor.signal
+    );
+  });
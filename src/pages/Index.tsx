@@ -1,7 +1,9 @@
+import { useParams } from "react-router-dom";
 import ChatInterface from "@/components/ChatInterface";
 
 const Index = () => {
-  return <ChatInterface />;
+  const { conversationId } = useParams();
+  return <ChatInterface conversationId={conversationId} />;
 };
 
 export default Index;
@@ -0,0 +1,54 @@
+export interface MessageError {
+  message: string;
+  retryable: boolean;
+}
+
+export type MessageSource = "text" | "voice";
+
+// Recorded or synthesised speech that can be replayed from the transcript
+export interface AudioAttachment {
+  data: string; // base64
+  mimeType: string;
+}
+
+// A file the user sent along with a prompt (see lib/attachments)
+export interface FileAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  data: string; // base64
+}
+
+export interface Message {
+  id: string;
+  // The message this one follows; null for the first message. Messages that
+  // share a parent are alternative branches (see lib/message-tree)
+  parentId: string | null;
+  content: string;
+  isUser: boolean;
+  timestamp: Date;
+  isStreaming?: boolean;
+  // Set when the reply failed; rendered as an error card instead of content
+  error?: MessageError;
+  // Absent for typed messages
+  source?: MessageSource;
+  audio?: AudioAttachment;
+  attachments?: FileAttachment[];
+  // The user talked over this reply before it finished playing
+  interrupted?: boolean;
+  // Generation was cancelled; `content` is whatever arrived before that
+  stopped?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  // Every message in every branch
+  messages: Message[];
+  // Last message of the branch being shown
+  activeLeafId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}